@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+import { createEntryMap } from './ThreadLedger';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'changes_requested';
+
+export interface ApprovalEntry {
+    guildName: string;
+    status: ApprovalStatus;
+    contentHash: string;
+    previewThreadId: string;
+    reason?: string;
+    decidedBy?: string;
+    decidedAt?: string;
+}
+
+// Approval files live next to the other runtime settings, one file per server
+const approvalDirectory = path.resolve(__dirname, 'approvals');
+
+// Both the poll cycle and button handlers write approvals, so every write re-reads the file first
+export class ApprovalStore {
+    private entries: Record<string, ApprovalEntry>;
+
+    private constructor(private filePath: string) {
+        this.entries = this.read();
+    }
+
+    public static load(guildId: string): ApprovalStore {
+        return new ApprovalStore(path.join(approvalDirectory, `${guildId}.json`));
+    }
+
+    private read(): Record<string, ApprovalEntry> {
+        if (!fs.existsSync(this.filePath)) return createEntryMap();
+
+        try {
+            return createEntryMap(JSON.parse(fs.readFileSync(this.filePath, 'utf-8') || '{}'));
+        } catch (error) {
+            logger.error(`Failed to read approval store ${this.filePath}: ${error}`);
+            return createEntryMap();
+        }
+    }
+
+    public get(key: string): ApprovalEntry | undefined {
+        return this.entries[key];
+    }
+
+    public all(): Record<string, ApprovalEntry> {
+        return this.entries;
+    }
+
+    // An approval covers the submission as it was reviewed; a resubmission or edit with other content needs a new review
+    public isApproved(key: string, contentHash: string): boolean {
+        const entry = this.entries[key];
+        return !!entry && entry.status === 'approved' && entry.contentHash === contentHash;
+    }
+
+    public findByPreviewThreadId(threadId: string): [string, ApprovalEntry] | undefined {
+        return Object.entries(this.entries).find(([, entry]) => entry.previewThreadId === threadId);
+    }
+
+    public set(key: string, entry: ApprovalEntry) {
+        this.entries = this.read();
+        this.entries[key] = entry;
+
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save approval store ${this.filePath}: ${error}`);
+        }
+    }
+}
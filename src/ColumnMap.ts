@@ -0,0 +1,87 @@
+// The sheet columns the bot relies on, mapped to a server's actual headers through `COLUMN_MAP`
+export type ColumnKey = 'TIMESTAMP' | 'GUILD_NAME' | 'FACTION' | 'GUILD_TYPE' | 'DISCORD_LINK' | 'DISCORD_CONTACT' | 'GUILD_LOGO';
+export type ColumnMap = Partial<Record<ColumnKey, string>>;
+export type ColumnIndices = Record<ColumnKey, number>;
+
+export const COLUMN_KEYS: ColumnKey[] = ['TIMESTAMP', 'GUILD_NAME', 'FACTION', 'GUILD_TYPE', 'DISCORD_LINK', 'DISCORD_CONTACT', 'GUILD_LOGO'];
+export const REQUIRED_COLUMNS: ColumnKey[] = ['TIMESTAMP', 'GUILD_NAME', 'GUILD_TYPE'];
+
+export const COLUMN_LABELS: Record<ColumnKey, string> = {
+    TIMESTAMP: 'Timestamp',
+    GUILD_NAME: 'Guild Name',
+    FACTION: 'Faction',
+    GUILD_TYPE: 'Guild Type',
+    DISCORD_LINK: 'Discord Link',
+    DISCORD_CONTACT: 'Discord Contact',
+    GUILD_LOGO: 'Guild Logo',
+};
+
+// Patterns tried in order when a column isn't mapped: the default header first, then looser guesses
+const COLUMN_PATTERNS: Record<ColumnKey, RegExp[]> = {
+    TIMESTAMP: [/^timestamp$/i, /time\s*stamp|submitted/i],
+    GUILD_NAME: [/^guild name$/i, /guild.*name|name.*guild/i, /^name$/i],
+    FACTION: [/^faction$/i, /faction/i],
+    GUILD_TYPE: [/^guild type$/i, /guild.*(type|scope|focus)/i],
+    DISCORD_LINK: [/discord link/i, /discord.*(invite|server|url)/i],
+    DISCORD_CONTACT: [/discord contact/i, /contact|recruiter/i],
+    GUILD_LOGO: [/guild logo/i, /logo|emblem/i],
+};
+
+// Guess a column map from the headers, never assigning one header to two columns. The game template's usual
+// headers are tried before the patterns.
+export const detectColumnMap = (headers: string[], templateColumns: ColumnMap = {}): ColumnMap => {
+    const columnMap: ColumnMap = {};
+    const claimedHeaders = new Set<string>();
+
+    for (const key of COLUMN_KEYS) {
+        const templateHeader = templateColumns[key]?.trim().toLowerCase();
+        const templateMatch = templateHeader && headers.find(h => h && !claimedHeaders.has(h) && h.trim().toLowerCase() === templateHeader);
+        if (templateMatch) {
+            columnMap[key] = templateMatch.trim();
+            claimedHeaders.add(templateMatch);
+            continue;
+        }
+
+        for (const pattern of COLUMN_PATTERNS[key]) {
+            const header = headers.find(h => h && !claimedHeaders.has(h) && pattern.test(h.trim()));
+            if (header) {
+                columnMap[key] = header.trim();
+                claimedHeaders.add(header);
+                break;
+            }
+        }
+    }
+
+    return columnMap;
+};
+
+// Resolve each column to its index; mapped headers must exist, unmapped columns fall back to detection
+export const resolveColumnIndices = (headers: string[], columnMap: ColumnMap = {}, templateColumns: ColumnMap = {}): { indices: ColumnIndices; missing: ColumnKey[] } => {
+    const detectedMap = detectColumnMap(headers, templateColumns);
+    const indices = {} as ColumnIndices;
+
+    for (const key of COLUMN_KEYS) {
+        const header = (columnMap[key] || detectedMap[key])?.trim().toLowerCase();
+        indices[key] = header ? headers.findIndex(h => h?.trim().toLowerCase() === header) : -1;
+    }
+
+    return {
+        indices,
+        missing: REQUIRED_COLUMNS.filter(key => indices[key] === -1),
+    };
+};
+
+// Human-readable summary of how each column resolves against the headers
+export const describeColumnMap = (headers: string[], columnMap: ColumnMap = {}, templateColumns: ColumnMap = {}): string => {
+    const { indices } = resolveColumnIndices(headers, columnMap, templateColumns);
+
+    return COLUMN_KEYS.map(key => {
+        const required = REQUIRED_COLUMNS.includes(key) ? ' (required)' : '';
+        const source = columnMap[key] ? 'mapped' : 'auto-detected';
+        if (indices[key] === -1) {
+            const expected = columnMap[key] ? `"${columnMap[key]}" not found` : 'not found';
+            return `❌ **${COLUMN_LABELS[key]}**${required}: ${expected}`;
+        }
+        return `✅ **${COLUMN_LABELS[key]}**${required}: "${headers[indices[key]].trim()}" (${source})`;
+    }).join('\n');
+};
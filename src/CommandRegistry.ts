@@ -0,0 +1,98 @@
+import {
+    ChatInputCommandInteraction,
+    Interaction,
+    MessageComponentInteraction,
+    ModalSubmitInteraction,
+    RESTPostAPIChatInputApplicationCommandsJSONBody,
+    Routes
+} from 'discord.js';
+import { REST } from '@discordjs/rest';
+import { logger } from './Logger';
+import { ConfigValidationError } from './ConfigStore';
+
+export interface SlashCommand {
+    data: { name: string; toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody };
+    execute(interaction: ChatInputCommandInteraction): Promise<void>;
+}
+
+// Handles buttons, select menus and modals sent by a command, matched on the component's custom ID
+export interface ComponentHandler {
+    matches(customId: string): boolean;
+    execute(interaction: MessageComponentInteraction | ModalSubmitInteraction): Promise<void>;
+}
+
+export class CommandRegistry {
+    private commands = new Map<string, SlashCommand>();
+    private componentHandlers: ComponentHandler[] = [];
+
+    public register(command: SlashCommand): this {
+        this.commands.set(command.data.name, command);
+        return this;
+    }
+
+    public registerComponent(handler: ComponentHandler): this {
+        this.componentHandlers.push(handler);
+        return this;
+    }
+
+    // Registers every command with Discord, per guild when guild IDs are given (updates instantly) or globally
+    public async deploy(applicationId: string, token: string, guildIds: string[] = []) {
+        const rest = new REST({ version: '10' }).setToken(token);
+        const body = Array.from(this.commands.values()).map(command => command.data.toJSON());
+
+        try {
+            if (guildIds.length > 0) {
+                for (const guildId of guildIds) {
+                    await rest.put(Routes.applicationGuildCommands(applicationId, guildId), { body });
+                    logger.info(`Registered ${body.length} commands.`, { guildId, action: 'deploy-commands' });
+                }
+            } else {
+                await rest.put(Routes.applicationCommands(applicationId), { body });
+                logger.info(`Registered ${body.length} global commands.`, { action: 'deploy-commands' });
+            }
+        } catch (error) {
+            logger.error(`Failed to register commands: ${error}`, { action: 'deploy-commands' });
+        }
+    }
+
+    public async handleInteraction(interaction: Interaction) {
+        try {
+            if (interaction.isChatInputCommand()) {
+                const command = this.commands.get(interaction.commandName);
+                if (!command) {
+                    await interaction.reply({
+                        content: 'Unknown command.',
+                        ephemeral: true
+                    });
+                    return;
+                }
+
+                await command.execute(interaction);
+            } else if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+                const handler = this.componentHandlers.find(h => h.matches(interaction.customId));
+                if (!handler) {
+                    await interaction.reply({
+                        content: 'This interaction is not a valid selection menu.',
+                        ephemeral: true
+                    });
+                    return;
+                }
+
+                await handler.execute(interaction);
+            }
+        } catch (error) {
+            logger.error(`Failed to handle interaction: ${error}`, { guildId: interaction.guildId || undefined, action: 'interaction' });
+
+            // Settings that fail validation are explained to the user, since they can fix them
+            const content = error instanceof ConfigValidationError
+                ? `The settings were not saved. ${error.message}.`
+                : 'Something went wrong while handling this interaction.';
+
+            if (interaction.isRepliable() && interaction.deferred && !interaction.replied) {
+                await interaction.editReply({ content }).catch(() => undefined);
+            } else if (interaction.isRepliable() && !interaction.replied) {
+                await interaction.reply({ content, ephemeral: true }).catch(() => undefined);
+            }
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+
+// Buttons the poll cycle attaches to mod forum posts; their handlers live in commands/ and match these IDs
+export const APPROVE_BUTTON_ID = 'approval_approve';
+export const REJECT_BUTTON_ID = 'approval_reject';
+export const CHANGES_BUTTON_ID = 'approval_changes';
+
+export const NOT_DUPLICATE_BUTTON_ID = 'similar_not_duplicate';
+export const MERGE_BUTTON_ID = 'similar_merge';
+export const IGNORE_BUTTON_ID = 'similar_ignore';
+
+// Buttons attached to the preview a new submission gets in the mod forum
+export const buildApprovalButtons = () => new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId(APPROVE_BUTTON_ID).setLabel('Approve').setStyle(ButtonStyle.Success),
+    new ButtonBuilder().setCustomId(REJECT_BUTTON_ID).setLabel('Reject').setStyle(ButtonStyle.Danger),
+    new ButtonBuilder().setCustomId(CHANGES_BUTTON_ID).setLabel('Request Changes').setStyle(ButtonStyle.Secondary)
+);
+
+// Buttons attached to each similar-name case in the mod forum
+export const buildSimilarNameButtons = () => new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId(NOT_DUPLICATE_BUTTON_ID).setLabel('Not a duplicate').setStyle(ButtonStyle.Success),
+    new ButtonBuilder().setCustomId(MERGE_BUTTON_ID).setLabel('Merge (keep newest)').setStyle(ButtonStyle.Danger),
+    new ButtonBuilder().setCustomId(IGNORE_BUTTON_ID).setLabel('Ignore for...').setStyle(ButtonStyle.Secondary)
+);
@@ -0,0 +1,458 @@
+import fs from 'fs';
+import path from 'path';
+import { logger, LOG_LEVELS } from './Logger';
+import { writeFileAtomic } from './Files';
+import { COLUMN_KEYS, ColumnKey, ColumnMap } from './ColumnMap';
+import { DataSourceSettings } from './DataSources';
+import { TagRule } from './ForumTags';
+import { RoutingRule } from './Routing';
+import { REPOST_STRATEGIES, RepostStrategy } from './RepostRotation';
+import { GAME_TEMPLATE_IDS, GameTemplateId } from './GameTemplates';
+import { EmbedTemplate, LOGO_POSITIONS, isHexColor } from './EmbedTemplates';
+
+// One server's entry in the config store
+export type ServerSettings = {
+    MOD_CHANNEL_ID: string;
+    SPREADSHEET_ID: string;
+    THREAD_AGE_LIMIT_HOURS: number;
+    MAX_ENTRY_AGE_DAYS: number;
+    ALLIANCE_CHANNEL_ID?: string; // Legacy faction channels, moved to ROUTING_RULES by migration 1
+    HORDE_CHANNEL_ID?: string;
+    POLL_INTERVAL_MS?: number;
+    DATA_SOURCE?: DataSourceSettings;
+    POST_UPDATE_NOTES?: boolean;
+    REQUIRE_APPROVAL?: boolean;
+    TAG_RULES?: TagRule[];
+    COLUMN_MAP?: ColumnMap;
+    ROUTING_RULES?: RoutingRule[];
+    FALLBACK_CHANNEL_ID?: string;
+    TIMESTAMP_FORMATS?: string[];
+    TIMEZONE?: string;
+    LOG_LEVEL?: string;
+    LOG_MIRROR_TO_MOD?: boolean;
+    REPOST_STRATEGY?: RepostStrategy;
+    REPOST_PRIORITY_COLUMN?: string;
+    REPOST_PRIORITY_WEIGHTS?: Record<string, number>;
+    MAX_REPOSTS_PER_HOUR?: number;
+    MAX_SUBMISSIONS_PER_DAY?: number;
+    SELF_BUMP_COOLDOWN_HOURS?: number;
+    NOTIFY_CHANNEL_ID?: string;
+    NOTIFY_COOLDOWN_MINUTES?: number;
+    EMOTES?: Record<string, string>;
+    GAME_TEMPLATE?: GameTemplateId;
+    EMBED_TEMPLATE?: EmbedTemplate;
+    WRITE_SHEET_STATUS?: boolean;
+};
+
+export const DEFAULT_SERVER_SETTINGS: ServerSettings = {
+    MOD_CHANNEL_ID: '',
+    SPREADSHEET_ID: '',
+    THREAD_AGE_LIMIT_HOURS: 0.5,
+    MAX_ENTRY_AGE_DAYS: 14,
+};
+
+export class ConfigValidationError extends Error {
+    constructor(public readonly serverId: string, public readonly field: string, problem: string) {
+        super(`Invalid setting ${field} for server ${serverId}: ${problem}`);
+        this.name = 'ConfigValidationError';
+    }
+}
+
+// Each check returns a description of the problem, or null when the value is fine
+type FieldCheck = (value: any) => string | null;
+
+const isString: FieldCheck = value => typeof value === 'string' ? null : 'must be a string';
+const isBoolean: FieldCheck = value => typeof value === 'boolean' ? null : 'must be true or false';
+const isPositiveNumber: FieldCheck = value => typeof value === 'number' && value > 0 ? null : 'must be a number above 0';
+const isStringArray: FieldCheck = value => Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be a list of strings';
+const isHexColorValue: FieldCheck = value => typeof value === 'string' && isHexColor(value) ? null : 'must be a hex color like "#0099ff"';
+const isOneOf = (values: string[]): FieldCheck => value =>
+    values.includes(value) ? null : `must be one of ${values.map(v => `"${v}"`).join(', ')}`;
+
+const isObjectList = (checkItem: (item: any) => string | null): FieldCheck => value => {
+    if (!Array.isArray(value)) return 'must be a list';
+    for (const [index, item] of value.entries()) {
+        const problem = item && typeof item === 'object' ? checkItem(item) : 'must be an object';
+        if (problem) return `item ${index + 1} ${problem}`;
+    }
+    return null;
+};
+
+const SERVER_SETTINGS_SCHEMA: Record<keyof ServerSettings, FieldCheck> = {
+    MOD_CHANNEL_ID: isString,
+    SPREADSHEET_ID: isString,
+    THREAD_AGE_LIMIT_HOURS: isPositiveNumber,
+    MAX_ENTRY_AGE_DAYS: isPositiveNumber,
+    ALLIANCE_CHANNEL_ID: isString,
+    HORDE_CHANNEL_ID: isString,
+    POLL_INTERVAL_MS: value => typeof value === 'number' && value >= 5000 ? null : 'must be a number of at least 5000',
+    DATA_SOURCE: value => {
+        if (!value || typeof value !== 'object') return 'must be an object';
+        const problem = isOneOf(['google-sheets', 'csv', 'json', 'http-json'])(value.TYPE ?? 'google-sheets');
+        return problem && `TYPE ${problem}`;
+    },
+    POST_UPDATE_NOTES: isBoolean,
+    REQUIRE_APPROVAL: isBoolean,
+    TAG_RULES: isObjectList(rule => typeof rule.COLUMN === 'string' ? null : 'needs a COLUMN'),
+    COLUMN_MAP: value => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return 'must be an object';
+        const unknownKey = Object.keys(value).find(key => !COLUMN_KEYS.includes(key as ColumnKey));
+        if (unknownKey) return `has unknown column "${unknownKey}"`;
+        return Object.values(value).every(header => typeof header === 'string') ? null : 'headers must be strings';
+    },
+    ROUTING_RULES: isObjectList(rule => {
+        if (typeof rule.COLUMN !== 'string' || typeof rule.CHANNEL_ID !== 'string') return 'needs a COLUMN and a CHANNEL_ID';
+        return typeof rule.VALUE === 'string' || isStringArray(rule.VALUE) === null ? null : 'VALUE must be a string or a list of strings';
+    }),
+    FALLBACK_CHANNEL_ID: isString,
+    TIMESTAMP_FORMATS: isStringArray,
+    TIMEZONE: isString,
+    LOG_LEVEL: isOneOf(['', ...LOG_LEVELS]),
+    LOG_MIRROR_TO_MOD: isBoolean,
+    REPOST_STRATEGY: isOneOf(REPOST_STRATEGIES),
+    REPOST_PRIORITY_COLUMN: isString,
+    REPOST_PRIORITY_WEIGHTS: value => value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value).every(weight => typeof weight === 'number' && weight >= 0) ? null : 'must map values to numbers of 0 or more',
+    MAX_REPOSTS_PER_HOUR: isPositiveNumber,
+    MAX_SUBMISSIONS_PER_DAY: isPositiveNumber,
+    SELF_BUMP_COOLDOWN_HOURS: isPositiveNumber,
+    NOTIFY_CHANNEL_ID: isString,
+    NOTIFY_COOLDOWN_MINUTES: isPositiveNumber,
+    EMOTES: value => value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value).every(emote => typeof emote === 'string') ? null : 'must map class columns and roles to emotes',
+    GAME_TEMPLATE: isOneOf(GAME_TEMPLATE_IDS),
+    WRITE_SHEET_STATUS: isBoolean,
+    EMBED_TEMPLATE: value => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) return 'must be an object';
+        const checks: Record<string, FieldCheck> = {
+            TITLE: isString,
+            DESCRIPTION: isString,
+            FOOTER: isString,
+            COLOR: isHexColorValue,
+            COLOR_COLUMN: isString,
+            COLORS: colors => colors && typeof colors === 'object' && !Array.isArray(colors) &&
+                Object.values(colors).every(color => isHexColorValue(color) === null) ? null : 'must map values to hex colors like "#0099ff"',
+            FIELD_ORDER: isStringArray,
+            FIELD_NAMES: names => names && typeof names === 'object' && !Array.isArray(names) &&
+                Object.values(names).every(name => typeof name === 'string') ? null : 'must map columns to field names',
+            HIDDEN_COLUMNS: isStringArray,
+            INLINE_COLUMNS: isStringArray,
+            LOGO_POSITION: isOneOf(LOGO_POSITIONS),
+        };
+        for (const [field, fieldValue] of Object.entries(value)) {
+            const check = checks[field];
+            if (!check) return `has unknown field "${field}"`;
+            const problem = check(fieldValue);
+            if (problem) return `${field} ${problem}`;
+        }
+        return null;
+    },
+};
+
+// Every problem with a server's settings, unknown fields included
+export const validateServerSettings = (serverId: string, settings: Record<string, any>): ConfigValidationError[] => {
+    const errors: ConfigValidationError[] = [];
+
+    for (const [field, value] of Object.entries(settings)) {
+        const check = SERVER_SETTINGS_SCHEMA[field as keyof ServerSettings];
+        if (!check) {
+            errors.push(new ConfigValidationError(serverId, field, 'unknown setting'));
+            continue;
+        }
+
+        const problem = value === undefined ? null : check(value);
+        if (problem) {
+            errors.push(new ConfigValidationError(serverId, field, problem));
+        }
+    }
+
+    return errors;
+};
+
+// Migrations upgrade each server's settings one schema version at a time; index 0 upgrades version 0 to 1
+const MIGRATIONS: ((settings: Record<string, any>) => Record<string, any>)[] = [
+    // 1: Faction channels become routing rules
+    settings => {
+        const { ALLIANCE_CHANNEL_ID, HORDE_CHANNEL_ID, ...rest } = settings;
+        if (Array.isArray(rest.ROUTING_RULES)) return rest;
+
+        const rules: RoutingRule[] = [];
+        if (ALLIANCE_CHANNEL_ID) rules.push({ COLUMN: 'FACTION', VALUE: 'Alliance', CHANNEL_ID: ALLIANCE_CHANNEL_ID });
+        if (HORDE_CHANNEL_ID) rules.push({ COLUMN: 'FACTION', VALUE: 'Horde', CHANNEL_ID: HORDE_CHANNEL_ID });
+        return { ...rest, ROUTING_RULES: rules };
+    },
+    // 2: Numbers copied over from config.txt were stored as strings
+    settings => {
+        const migrated = { ...settings };
+        for (const field of ['THREAD_AGE_LIMIT_HOURS', 'MAX_ENTRY_AGE_DAYS', 'POLL_INTERVAL_MS']) {
+            if (typeof migrated[field] === 'string' && migrated[field].trim() !== '' && !isNaN(Number(migrated[field]))) {
+                migrated[field] = Number(migrated[field]);
+            }
+        }
+        return migrated;
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export type ConfigTable = 'servers' | 'join-times';
+
+// Where the config is kept; reads are served from memory and only reloaded when the storage changes
+export interface ConfigBackend {
+    readonly description: string;
+    getSchemaVersion(): number;
+    setSchemaVersion(version: number): void;
+    readAll(table: ConfigTable): Record<string, any>;
+    write(table: ConfigTable, key: string, value: any | undefined): void;
+    writeAll(table: ConfigTable, values: Record<string, any>): void;
+}
+
+// server-settings.json holds `{ "SCHEMA_VERSION": n, "SERVERS": { ... } }`; files from before versioning are
+// a bare map of servers and count as version 0. join-times.json maps server IDs to ISO join times.
+export class JsonFileBackend implements ConfigBackend {
+    public readonly description: string;
+    private cache = new Map<string, { mtimeMs: number; data: Record<string, any> }>();
+
+    constructor(private settingsPath: string, private joinTimesPath: string) {
+        this.description = `JSON files (${path.basename(settingsPath)}, ${path.basename(joinTimesPath)})`;
+    }
+
+    private filePathFor(table: ConfigTable): string {
+        return table === 'servers' ? this.settingsPath : this.joinTimesPath;
+    }
+
+    private readFile(filePath: string): Record<string, any> {
+        if (!fs.existsSync(filePath)) return {};
+
+        const mtimeMs = fs.statSync(filePath).mtimeMs;
+        const cached = this.cache.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs) return cached.data;
+
+        const text = fs.readFileSync(filePath, 'utf-8');
+        let data: Record<string, any>;
+        try {
+            data = JSON.parse(text || '{}');
+        } catch (error) {
+            throw new Error(`${path.basename(filePath)} is not valid JSON: ${error}`);
+        }
+
+        this.cache.set(filePath, { mtimeMs, data });
+        return data;
+    }
+
+    private writeFile(filePath: string, data: Record<string, any>) {
+        writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+        this.cache.set(filePath, { mtimeMs: fs.statSync(filePath).mtimeMs, data });
+    }
+
+    private readSettingsFile(): { SCHEMA_VERSION: number; SERVERS: Record<string, any> } {
+        const data = this.readFile(this.settingsPath);
+        return typeof data.SCHEMA_VERSION === 'number'
+            ? { SCHEMA_VERSION: data.SCHEMA_VERSION, SERVERS: data.SERVERS || {} }
+            : { SCHEMA_VERSION: 0, SERVERS: data };
+    }
+
+    public getSchemaVersion(): number {
+        // A store that doesn't exist yet has nothing to migrate
+        return fs.existsSync(this.settingsPath) ? this.readSettingsFile().SCHEMA_VERSION : SCHEMA_VERSION;
+    }
+
+    public setSchemaVersion(version: number) {
+        this.writeFile(this.settingsPath, { SCHEMA_VERSION: version, SERVERS: this.readSettingsFile().SERVERS });
+    }
+
+    public readAll(table: ConfigTable): Record<string, any> {
+        return table === 'servers' ? this.readSettingsFile().SERVERS : this.readFile(this.joinTimesPath);
+    }
+
+    public write(table: ConfigTable, key: string, value: any | undefined) {
+        const values = { ...this.readAll(table) };
+        if (value === undefined) {
+            delete values[key];
+        } else {
+            values[key] = value;
+        }
+        this.writeAll(table, values);
+    }
+
+    public writeAll(table: ConfigTable, values: Record<string, any>) {
+        if (table === 'servers') {
+            this.writeFile(this.settingsPath, { SCHEMA_VERSION: this.getSchemaVersion(), SERVERS: values });
+        } else {
+            this.writeFile(this.filePathFor(table), values);
+        }
+    }
+}
+
+// The subset of better-sqlite3 the SQLite backend uses; the package is an optional dependency
+interface SqliteStatement {
+    run(...params: any[]): unknown;
+    get(...params: any[]): any;
+    all(...params: any[]): any[];
+}
+
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+    transaction<T extends (...args: any[]) => void>(fn: T): T;
+}
+
+// Every table is a key/value scope in one `config` table, with values stored as JSON
+export class SqliteBackend implements ConfigBackend {
+    public readonly description: string;
+    private db: SqliteDatabase;
+    private cache = new Map<ConfigTable, Record<string, any>>();
+
+    constructor(databasePath: string) {
+        let Database: new (filename: string) => SqliteDatabase;
+        try {
+            Database = require('better-sqlite3');
+        } catch {
+            throw new Error('CONFIG_BACKEND is "sqlite" but the better-sqlite3 package is not installed. Run `npm install better-sqlite3`.');
+        }
+
+        this.description = `SQLite database (${path.basename(databasePath)})`;
+        this.db = new Database(databasePath);
+        this.db.exec('CREATE TABLE IF NOT EXISTS config (scope TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (scope, key))');
+    }
+
+    public isEmpty(): boolean {
+        return !this.db.prepare('SELECT 1 FROM config LIMIT 1').get();
+    }
+
+    public getSchemaVersion(): number {
+        const row = this.db.prepare("SELECT value FROM config WHERE scope = 'meta' AND key = 'SCHEMA_VERSION'").get();
+        return row ? JSON.parse(row.value) : SCHEMA_VERSION;
+    }
+
+    public setSchemaVersion(version: number) {
+        this.db.prepare("INSERT OR REPLACE INTO config (scope, key, value) VALUES ('meta', 'SCHEMA_VERSION', ?)").run(JSON.stringify(version));
+    }
+
+    // The database is only written through this backend, so the cache never goes stale
+    public readAll(table: ConfigTable): Record<string, any> {
+        const cached = this.cache.get(table);
+        if (cached) return cached;
+
+        const rows = this.db.prepare('SELECT key, value FROM config WHERE scope = ?').all(table);
+        const values: Record<string, any> = Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+        this.cache.set(table, values);
+        return values;
+    }
+
+    public write(table: ConfigTable, key: string, value: any | undefined) {
+        if (value === undefined) {
+            this.db.prepare('DELETE FROM config WHERE scope = ? AND key = ?').run(table, key);
+        } else {
+            this.db.prepare('INSERT OR REPLACE INTO config (scope, key, value) VALUES (?, ?, ?)').run(table, key, JSON.stringify(value));
+        }
+
+        const values = { ...this.readAll(table) };
+        if (value === undefined) {
+            delete values[key];
+        } else {
+            values[key] = value;
+        }
+        this.cache.set(table, values);
+    }
+
+    public writeAll(table: ConfigTable, values: Record<string, any>) {
+        this.db.transaction(() => {
+            this.db.prepare('DELETE FROM config WHERE scope = ?').run(table);
+            for (const [key, value] of Object.entries(values)) {
+                this.db.prepare('INSERT INTO config (scope, key, value) VALUES (?, ?, ?)').run(table, key, JSON.stringify(value));
+            }
+        })();
+        this.cache.set(table, values);
+    }
+}
+
+export class ConfigStore {
+    private validatedSource?: Record<string, any>;
+    private validatedServers: Record<string, Record<string, any>> = {};
+
+    constructor(private backend: ConfigBackend) {
+        this.migrate();
+    }
+
+    private migrate() {
+        const version = this.backend.getSchemaVersion();
+        if (version >= SCHEMA_VERSION) return;
+
+        const servers = Object.fromEntries(Object.entries(this.backend.readAll('servers')).map(([serverId, settings]) => [
+            serverId,
+            MIGRATIONS.slice(version).reduce((migrated, migration) => migration(migrated), settings),
+        ]));
+
+        this.backend.writeAll('servers', servers);
+        this.backend.setSchemaVersion(SCHEMA_VERSION);
+        logger.info(`Migrated server settings in ${this.backend.description} from schema version ${version} to ${SCHEMA_VERSION}.`, { action: 'config' });
+    }
+
+    // Invalid fields in stored settings are reported by name and ignored, so defaults apply instead
+    private getValidatedServers(): Record<string, Record<string, any>> {
+        const source = this.backend.readAll('servers');
+        if (source === this.validatedSource) return this.validatedServers;
+
+        this.validatedServers = {};
+        for (const [serverId, settings] of Object.entries(source)) {
+            const errors = validateServerSettings(serverId, settings);
+            errors.forEach(error => logger.error(`${error.message}. Ignoring it until it is fixed.`, { guildId: serverId, action: 'config' }));
+
+            const invalidFields = new Set(errors.map(error => error.field));
+            this.validatedServers[serverId] = Object.fromEntries(Object.entries(settings).filter(([field]) => !invalidFields.has(field)));
+        }
+        this.validatedSource = source;
+
+        return this.validatedServers;
+    }
+
+    public hasServer(serverId: string): boolean {
+        return serverId in this.getValidatedServers();
+    }
+
+    public getServerIds(): string[] {
+        return Object.keys(this.getValidatedServers());
+    }
+
+    // A copy of a server's settings with defaults filled in; changes only apply once saved
+    public getServer(serverId: string): ServerSettings {
+        return JSON.parse(JSON.stringify({ ...DEFAULT_SERVER_SETTINGS, ...this.getValidatedServers()[serverId] }));
+    }
+
+    // Throws a ConfigValidationError naming the first bad field instead of saving invalid settings
+    public saveServer(serverId: string, settings: ServerSettings) {
+        const cleaned = JSON.parse(JSON.stringify(settings));
+        const [error] = validateServerSettings(serverId, cleaned);
+        if (error) throw error;
+
+        this.backend.write('servers', serverId, cleaned);
+    }
+
+    public getJoinTimes(): Record<string, string> {
+        return { ...this.backend.readAll('join-times') };
+    }
+
+    public setJoinTime(serverId: string, joinedAt: string | undefined) {
+        this.backend.write('join-times', serverId, joinedAt);
+    }
+}
+
+// Pick the backend from `CONFIG_BACKEND` in botsettings.json. A new SQLite database starts as a copy of the JSON files.
+export const createConfigStore = (settings: { CONFIG_BACKEND?: string; CONFIG_DATABASE?: string }, directory: string): ConfigStore => {
+    const jsonBackend = new JsonFileBackend(path.join(directory, 'server-settings.json'), path.join(directory, 'join-times.json'));
+    if (settings.CONFIG_BACKEND !== 'sqlite') {
+        return new ConfigStore(jsonBackend);
+    }
+
+    const sqliteBackend = new SqliteBackend(path.resolve(directory, settings.CONFIG_DATABASE || 'config.db'));
+    if (sqliteBackend.isEmpty()) {
+        const jsonStore = new ConfigStore(jsonBackend);
+        sqliteBackend.writeAll('servers', jsonBackend.readAll('servers'));
+        sqliteBackend.writeAll('join-times', jsonStore.getJoinTimes());
+        sqliteBackend.setSchemaVersion(SCHEMA_VERSION);
+        logger.info(`Imported ${jsonStore.getServerIds().length} servers from the JSON config files into ${sqliteBackend.description}.`, { action: 'config' });
+    }
+
+    return new ConfigStore(sqliteBackend);
+};
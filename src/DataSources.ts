@@ -0,0 +1,332 @@
+import axios from 'axios';
+import { google } from 'googleapis';
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+
+// Settings for the `DATA_SOURCE` entry of a server in server-settings.json
+export interface DataSourceSettings {
+    TYPE: 'google-sheets' | 'csv' | 'json' | 'http-json';
+    SPREADSHEET_ID?: string;   // google-sheets (defaults to the server's SPREADSHEET_ID)
+    SHEET_RANGE?: string;      // google-sheets (defaults to the bot's SHEET_RANGE)
+    PATH?: string;             // csv, json: relative paths are resolved next to the bot
+    URL?: string;              // http-json
+    HEADERS?: Record<string, string>; // http-json: extra request headers, e.g. an API key
+    ROWS_PATH?: string;        // json, http-json: dotted path to the rows inside the document
+}
+
+// Columns the bot writes onto each submission's row in Google Sheets. They are left out of the rows it reads, so
+// writing them never looks like an edit to the submission.
+export const STATUS_COLUMNS = ['Bot Thread', 'Bot Status', 'Bot Last Posted', 'Bot Next Repost', 'Bot Last Error'] as const;
+export type StatusColumn = typeof STATUS_COLUMNS[number];
+export type PostStatus = 'posted' | 'queued' | 'pending approval' | 'rejected' | 'expired' | 'error';
+
+export interface RowStatus {
+    rowNumber: number; // As shown in the sheet, where the headers are row 1
+    values: Record<StatusColumn, string>;
+}
+
+// Every data source returns the submissions as rows, with the column headers as the first row.
+// Sources that can be written to also take each row's post status.
+export interface DataSource {
+    readonly description: string;
+    fetchRows(): Promise<string[][]>;
+    writeStatuses?(statuses: RowStatus[]): Promise<number>;
+}
+
+const resolveLocalPath = (filePath: string): string => path.isAbsolute(filePath) ? filePath : path.resolve(__dirname, filePath);
+
+const toCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(toCell).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Accepts either an array of rows (headers first) or an array of objects keyed by header
+export const normalizeJsonRows = (document: unknown, rowsPath?: string): string[][] => {
+    let data: any = document;
+    if (rowsPath) {
+        for (const key of rowsPath.split('.')) {
+            data = data?.[key];
+        }
+    }
+
+    if (!Array.isArray(data)) {
+        throw new Error(`Expected an array of rows${rowsPath ? ` at "${rowsPath}"` : ''}`);
+    }
+    if (data.length === 0) return [];
+
+    if (data.every(Array.isArray)) {
+        return data.map((row: unknown[]) => row.map(toCell));
+    }
+
+    // Collect headers in the order they first appear
+    const headers: string[] = [];
+    for (const record of data) {
+        for (const key of Object.keys(record ?? {})) {
+            if (!headers.includes(key)) headers.push(key);
+        }
+    }
+
+    return [headers, ...data.map((record: Record<string, unknown>) => headers.map(header => toCell(record?.[header])))];
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and line breaks inside quotes
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const content = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// The service account in credentials.json, shared by the Sheets client and Drive logo downloads
+let googleAuth: InstanceType<typeof google.auth.JWT> | undefined;
+export const getGoogleAuth = () => {
+    if (!googleAuth) {
+        const SCOPES = ['https://www.googleapis.com/auth/spreadsheets', 'https://www.googleapis.com/auth/drive.readonly'];
+        const CREDENTIALS_PATH = path.join(__dirname, 'credentials.json');
+        const credentials = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, 'utf8'));
+
+        googleAuth = new google.auth.JWT(
+            credentials.client_email,
+            undefined,
+            credentials.private_key,
+            SCOPES
+        );
+    }
+    return googleAuth;
+};
+
+// Column letters for a zero-based column number: 0 is A, 26 is AA
+const toColumnLetters = (column: number): string => {
+    let letters = '';
+    for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+    }
+    return letters;
+};
+
+const fromColumnLetters = (letters: string): number =>
+    letters.toUpperCase().split('').reduce((column, letter) => column * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Where the status columns are in the sheet as last read, and what they hold, by "row number|column"
+interface StatusLayout {
+    headerCount: number;
+    columns: Map<StatusColumn, number>;
+    cells: Map<string, string>;
+}
+
+export class GoogleSheetsDataSource implements DataSource {
+    private sheets: any;
+    private statusLayout?: StatusLayout;
+
+    constructor(private spreadsheetId: string, private range: string) {}
+
+    public get description(): string {
+        return `Google Sheet ${this.spreadsheetId}`;
+    }
+
+    private initializeGoogleSheetsAPI() {
+        this.sheets = google.sheets({ version: 'v4', auth: getGoogleAuth() });
+    }
+
+    private async handleRateLimit(response: any) {
+        if (response.status === 429) { // Rate limit hit
+            const retryAfter = parseInt(response.headers['retry-after'] || '10000', 10); // Default to 10 seconds if not specified
+            logger.warn(`Google Sheets rate limit hit, waiting for ${retryAfter}ms before retrying...`, { action: 'fetch-sheet' });
+            await new Promise(resolve => setTimeout(resolve, retryAfter)); // Wait before retrying
+        }
+    }
+
+    public async fetchRows(): Promise<string[][]> {
+        if (!this.sheets) {
+            this.initializeGoogleSheetsAPI();
+        }
+
+        const response = await this.sheets.spreadsheets.values.get({
+            spreadsheetId: this.spreadsheetId,
+            range: this.range,
+        });
+        await this.handleRateLimit(response);
+        return this.splitStatusColumns(response.data.values || []);
+    }
+
+    // Remember the status columns and their values, and return the rows without them
+    private splitStatusColumns(rows: string[][]): string[][] {
+        const headers = rows[0] || [];
+        const columns = new Map<StatusColumn, number>();
+        headers.forEach((header, index) => {
+            const column = STATUS_COLUMNS.find(name => name.toLowerCase() === header?.trim().toLowerCase());
+            if (column && !columns.has(column)) columns.set(column, index);
+        });
+
+        const cells = new Map<string, string>();
+        rows.slice(1).forEach((row, index) => {
+            columns.forEach((columnIndex, column) => cells.set(`${index + 2}|${column}`, row[columnIndex] || ''));
+        });
+        this.statusLayout = { headerCount: headers.length, columns, cells };
+
+        const statusIndices = new Set(columns.values());
+        return statusIndices.size === 0 ? rows : rows.map(row => row.filter((_, index) => !statusIndices.has(index)));
+    }
+
+    // Write every changed status cell in one batchUpdate, adding missing status columns after the last header.
+    // Returns the number of cells written.
+    public async writeStatuses(statuses: RowStatus[]): Promise<number> {
+        const layout = this.statusLayout;
+        if (!layout) return 0;
+
+        // The range sets the sheet and where its columns and rows start, e.g. "Form Responses 1!A:Z"
+        const match = this.range.match(/^(?:(.+)!)?\$?([A-Za-z]+)\$?(\d*)(?::\$?([A-Za-z]+)\$?\d*)?$/);
+        if (!match) {
+            throw new Error(`Can't write statuses to the range "${this.range}"; use a range like "Sheet1!A:Z"`);
+        }
+        const [, sheet, firstColumn, firstRow, lastColumn] = match;
+        const prefix = sheet ? `${sheet}!` : '';
+        const columnOffset = fromColumnLetters(firstColumn);
+        const rowOffset = (Number(firstRow) || 1) - 1;
+        const cell = (column: number, rowNumber: number) => `${prefix}${toColumnLetters(columnOffset + column)}${rowOffset + rowNumber}`;
+
+        const data: { range: string; values: string[][] }[] = [];
+        let nextColumn = layout.headerCount;
+        for (const column of STATUS_COLUMNS) {
+            if (layout.columns.has(column)) continue;
+            if (lastColumn && columnOffset + nextColumn > fromColumnLetters(lastColumn)) {
+                throw new Error(`No room for the "${column}" column in the range "${this.range}"; widen the range in the settings`);
+            }
+            layout.columns.set(column, nextColumn);
+            data.push({ range: cell(nextColumn, 1), values: [[column]] });
+            nextColumn++;
+        }
+        layout.headerCount = nextColumn;
+
+        const written: [string, string][] = [];
+        for (const status of statuses) {
+            for (const column of STATUS_COLUMNS) {
+                const key = `${status.rowNumber}|${column}`;
+                const value = status.values[column];
+                if ((layout.cells.get(key) || '') === value) continue;
+
+                data.push({ range: cell(layout.columns.get(column)!, status.rowNumber), values: [[value]] });
+                written.push([key, value]);
+            }
+        }
+        if (data.length === 0) return 0;
+
+        const response = await this.sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId: this.spreadsheetId,
+            requestBody: { valueInputOption: 'RAW', data },
+        });
+        await this.handleRateLimit(response);
+
+        written.forEach(([key, value]) => layout.cells.set(key, value));
+        return data.length;
+    }
+}
+
+export class CsvFileDataSource implements DataSource {
+    constructor(private filePath: string) {}
+
+    public get description(): string {
+        return `CSV file ${this.filePath}`;
+    }
+
+    public async fetchRows(): Promise<string[][]> {
+        const text = await fs.promises.readFile(resolveLocalPath(this.filePath), 'utf-8');
+        return parseCsv(text);
+    }
+}
+
+export class JsonFileDataSource implements DataSource {
+    constructor(private filePath: string, private rowsPath?: string) {}
+
+    public get description(): string {
+        return `JSON file ${this.filePath}`;
+    }
+
+    public async fetchRows(): Promise<string[][]> {
+        const text = await fs.promises.readFile(resolveLocalPath(this.filePath), 'utf-8');
+        return normalizeJsonRows(JSON.parse(text), this.rowsPath);
+    }
+}
+
+export class HttpJsonDataSource implements DataSource {
+    constructor(private url: string, private headers: Record<string, string> = {}, private rowsPath?: string) {}
+
+    public get description(): string {
+        return `HTTP endpoint ${this.url}`;
+    }
+
+    public async fetchRows(): Promise<string[][]> {
+        const response = await axios.get(this.url, {
+            headers: { Accept: 'application/json', ...this.headers },
+            timeout: 15000,
+        });
+        return normalizeJsonRows(response.data, this.rowsPath);
+    }
+}
+
+// Pick the data source for a server, falling back to the Google Sheet configured with /setupsheet
+export const createDataSource = (
+    settings: DataSourceSettings | undefined,
+    defaults: { SPREADSHEET_ID: string; SHEET_RANGE: string }
+): DataSource => {
+    const type = settings?.TYPE || 'google-sheets';
+
+    switch (type) {
+        case 'google-sheets':
+            return new GoogleSheetsDataSource(
+                settings?.SPREADSHEET_ID || defaults.SPREADSHEET_ID,
+                settings?.SHEET_RANGE || defaults.SHEET_RANGE
+            );
+        case 'csv':
+            if (!settings?.PATH) throw new Error('DATA_SOURCE.PATH is required for a csv data source.');
+            return new CsvFileDataSource(settings.PATH);
+        case 'json':
+            if (!settings?.PATH) throw new Error('DATA_SOURCE.PATH is required for a json data source.');
+            return new JsonFileDataSource(settings.PATH, settings.ROWS_PATH);
+        case 'http-json':
+            if (!settings?.URL) throw new Error('DATA_SOURCE.URL is required for an http-json data source.');
+            return new HttpJsonDataSource(settings.URL, settings.HEADERS, settings.ROWS_PATH);
+        default:
+            throw new Error(`Unknown DATA_SOURCE.TYPE "${type}".`);
+    }
+};
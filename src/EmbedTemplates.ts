@@ -0,0 +1,120 @@
+import { APIEmbedField, ColorResolvable, EmbedBuilder } from 'discord.js';
+import { COLUMN_KEYS, ColumnIndices, ColumnKey } from './ColumnMap';
+
+// A server's `EMBED_TEMPLATE` in server-settings.json. Columns are named by sheet header or column key (e.g. "FACTION");
+// `[*]` stands for every class column and `{Header}` in texts is replaced with the row's value for that column.
+export interface EmbedTemplate {
+    TITLE?: string;
+    DESCRIPTION?: string;
+    FOOTER?: string;
+    COLOR?: string;                     // Hex color, e.g. "#0099ff"
+    COLOR_COLUMN?: string;              // Column whose value picks a color from COLORS, e.g. "FACTION" or "GUILD_TYPE"
+    COLORS?: Record<string, string>;    // Column value -> hex color
+    FIELD_ORDER?: string[];             // Columns shown first, in this order; the rest follow in sheet order
+    FIELD_NAMES?: Record<string, string>; // Column -> field name shown in the post
+    HIDDEN_COLUMNS?: string[];
+    INLINE_COLUMNS?: string[];
+    LOGO_POSITION?: LogoPosition;
+}
+
+// Where the guild logo goes: the embed's thumbnail, its large image, or attached below it
+export type LogoPosition = 'thumbnail' | 'image' | 'attachment';
+export const LOGO_POSITIONS: LogoPosition[] = ['thumbnail', 'image', 'attachment'];
+
+const ALL_CLASS_COLUMNS = '[*]';
+
+const DEFAULT_TITLE = 'Guild Details';
+const DEFAULT_COLOR = '#0099ff';
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Discord limits on embed texts
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_FOOTER_LENGTH = 2048;
+const MAX_FIELD_NAME_LENGTH = 256;
+
+// A field before the template is applied; `column` is the header it came from
+export interface PostField {
+    column: string;
+    name: string;
+    value: string;
+}
+
+export const isHexColor = (value: string): boolean => HEX_COLOR_PATTERN.test(value.trim());
+
+// Whether a template entry names a column: its header, or its column key when the column is one the bot resolves
+const namesColumn = (name: string, column: string, indices: ColumnIndices, headers: string[]): boolean => {
+    const text = name.trim().toLowerCase();
+    if (text === column.trim().toLowerCase()) return true;
+    if (text === ALL_CLASS_COLUMNS) return column.trim().startsWith('[') && column.trim().endsWith(']');
+
+    const key = name.trim().toUpperCase() as ColumnKey;
+    return COLUMN_KEYS.includes(key) && indices[key] !== -1 && headers[indices[key]]?.trim().toLowerCase() === column.trim().toLowerCase();
+};
+
+// The row's value for a column named by header or column key, or undefined when there is no such column
+export const getColumnValue = (name: string, headers: string[], row: string[], indices: ColumnIndices): string | undefined => {
+    const key = name.trim().toUpperCase() as ColumnKey;
+    const index = COLUMN_KEYS.includes(key)
+        ? indices[key]
+        : headers.findIndex(header => header?.trim().toLowerCase() === name.trim().toLowerCase());
+    return index === -1 ? undefined : (row[index] || '').trim();
+};
+
+// Replace each `{Column}` with the row's value; unknown columns are left as written so mistakes show up in previews
+export const fillPlaceholders = (text: string, headers: string[], row: string[], indices: ColumnIndices): string =>
+    text.replace(/\{([^{}]+)\}/g, (placeholder, name: string) => getColumnValue(name, headers, row, indices) ?? placeholder);
+
+const getColor = (template: EmbedTemplate, headers: string[], row: string[], indices: ColumnIndices): string => {
+    if (template.COLOR_COLUMN && template.COLORS) {
+        const value = getColumnValue(template.COLOR_COLUMN, headers, row, indices)?.toLowerCase();
+        const color = Object.entries(template.COLORS).find(([match]) => match.trim().toLowerCase() === value)?.[1];
+        if (color && isHexColor(color)) return color;
+    }
+    return template.COLOR && isHexColor(template.COLOR) ? template.COLOR : DEFAULT_COLOR;
+};
+
+// Build a post's embed from its fields, which arrive in the default order: sheet columns, class rows, then Discord
+// link and contact
+export const buildEmbed = (template: EmbedTemplate = {}, headers: string[], row: string[], indices: ColumnIndices, fields: PostField[]): EmbedBuilder => {
+    const matches = (names: string[] | undefined, column: string) =>
+        (names || []).some(name => namesColumn(name, column, indices, headers));
+    const orderOf = (column: string) => {
+        const position = (template.FIELD_ORDER || []).findIndex(name => namesColumn(name, column, indices, headers));
+        return position === -1 ? Number.MAX_SAFE_INTEGER : position;
+    };
+
+    // Array.prototype.sort is stable, so unlisted fields keep their default order
+    const embedFields: APIEmbedField[] = fields
+        .filter(field => !matches(template.HIDDEN_COLUMNS, field.column))
+        .sort((a, b) => orderOf(a.column) - orderOf(b.column))
+        .map(field => {
+            const renamed = Object.entries(template.FIELD_NAMES || {}).find(([name]) => namesColumn(name, field.column, indices, headers))?.[1];
+            return {
+                name: (renamed ?? field.name).slice(0, MAX_FIELD_NAME_LENGTH) || '\u200B',
+                value: field.value,
+                inline: matches(template.INLINE_COLUMNS, field.column),
+            };
+        });
+
+    const embed = new EmbedBuilder()
+        .setColor(getColor(template, headers, row, indices) as ColorResolvable)
+        .setTitle(fillPlaceholders(template.TITLE || DEFAULT_TITLE, headers, row, indices).slice(0, MAX_TITLE_LENGTH) || DEFAULT_TITLE)
+        .setTimestamp();
+
+    if (embedFields.length > 0) {
+        embed.addFields(embedFields.slice(0, 25));
+    }
+
+    const description = template.DESCRIPTION && fillPlaceholders(template.DESCRIPTION, headers, row, indices).slice(0, MAX_DESCRIPTION_LENGTH);
+    if (description) {
+        embed.setDescription(description);
+    }
+
+    const footer = template.FOOTER && fillPlaceholders(template.FOOTER, headers, row, indices).slice(0, MAX_FOOTER_LENGTH);
+    if (footer) {
+        embed.setFooter({ text: footer });
+    }
+
+    return embed;
+};
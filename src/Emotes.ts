@@ -0,0 +1,33 @@
+import { GameTemplate } from './GameTemplates';
+
+// Emotes shown for each class column ("[Warrior]") and role ("Tank") in recruitment posts. The server's game template
+// provides the defaults and servers override them with `EMOTES`; custom emojis the bot can't use fall back to a
+// plain-text or Unicode label.
+
+const CUSTOM_EMOJI_PATTERN = /^<a?:(\w+):(\d+)>$/;
+
+export const parseCustomEmoji = (text: string): { name: string; id: string } | null => {
+    const match = text.trim().match(CUSTOM_EMOJI_PATTERN);
+    return match ? { name: match[1], id: match[2] } : null;
+};
+
+// Every emote a server uses: the template's defaults with the server's overrides on top
+export const getEmoteMap = (template: GameTemplate, overrides: Record<string, string> = {}): Record<string, string> =>
+    ({ ...template.emotes, ...overrides });
+
+// Every class column and role the template knows, in the template's order
+export const getEmoteKeys = (template: GameTemplate): string[] =>
+    [...template.classes.map(name => `[${name}]`), ...template.roles];
+
+// Plain-text label for a class column or role: "[Death Knight]" reads as "Death Knight"
+export const getFallbackLabel = (key: string, template: GameTemplate): string =>
+    template.fallbackLabels[key] || (key.startsWith('[') && key.endsWith(']') ? `**${key.slice(1, -1)}**` : key);
+
+// The emote to show for a class column or role, or its fallback label when it is a custom emoji the bot can't use
+export const resolveEmote = (key: string, emotes: Record<string, string>, template: GameTemplate, isEmojiAvailable: (id: string) => boolean): string => {
+    const emote = emotes[key];
+    if (!emote) return getFallbackLabel(key, template);
+
+    const customEmoji = parseCustomEmoji(emote);
+    return customEmoji && !isEmojiAvailable(customEmoji.id) ? getFallbackLabel(key, template) : emote;
+};
@@ -0,0 +1,17 @@
+import fs from 'fs';
+import path from 'path';
+
+// Write to a temporary file and rename it over the original, so a crash never leaves a half-written file
+export const writeFileAtomic = (filePath: string, content: string) => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+        fs.writeSync(fd, content);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+};
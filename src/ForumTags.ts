@@ -0,0 +1,75 @@
+import { ForumChannel } from 'discord.js';
+import { logger } from './Logger';
+
+// One entry of a server's `TAG_RULES` in server-settings.json
+export interface TagRule {
+    COLUMN: string;                 // Column header, `*` matches any text (e.g. "[*]" for every class column)
+    TAGS?: Record<string, string>;  // Cell value -> tag name; without it every value becomes a tag of the same name
+}
+
+// Discord limits: 20 tags per forum, 5 applied tags per thread, 20 characters per tag name
+const MAX_AVAILABLE_TAGS = 20;
+const MAX_APPLIED_TAGS = 5;
+const MAX_TAG_NAME_LENGTH = 20;
+
+const matchesColumn = (pattern: string, header: string): boolean => {
+    const escaped = pattern.trim().split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${escaped}$`, 'i').test(header.trim());
+};
+
+// Tag names for a row, in rule order and without duplicates
+export const getTagNamesForRow = (rules: TagRule[], headers: string[], row: string[]): string[] => {
+    const tagNames: string[] = [];
+
+    for (const rule of rules) {
+        const valueMap = new Map(Object.entries(rule.TAGS || {}).map(([value, tag]) => [value.trim().toLowerCase(), tag]));
+
+        headers.forEach((header, index) => {
+            if (!matchesColumn(rule.COLUMN, header)) return;
+
+            const values = (row[index] || '').split(',').map(value => value.trim()).filter(Boolean);
+            for (const value of values) {
+                const tagName = rule.TAGS ? valueMap.get(value.toLowerCase()) : value;
+                const trimmedName = tagName?.trim().slice(0, MAX_TAG_NAME_LENGTH);
+                if (trimmedName && !tagNames.some(name => name.toLowerCase() === trimmedName.toLowerCase())) {
+                    tagNames.push(trimmedName);
+                }
+            }
+        });
+    }
+
+    return tagNames;
+};
+
+// Look up the forum's tag IDs for the given names, creating any tags the forum doesn't have yet
+export const resolveForumTagIds = async (channel: ForumChannel, tagNames: string[]): Promise<string[]> => {
+    const findTag = (name: string) => channel.availableTags.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+
+    const missingNames = tagNames.filter(name => !findTag(name));
+    if (missingNames.length > 0) {
+        const log = logger.child({ guildId: channel.guildId, channel: channel.name, action: 'forum-tags' });
+        const freeSlots = MAX_AVAILABLE_TAGS - channel.availableTags.length;
+        const namesToCreate = missingNames.slice(0, Math.max(freeSlots, 0));
+
+        if (namesToCreate.length < missingNames.length) {
+            log.warn(`Forum tag limit reached, could not create tags: ${missingNames.slice(namesToCreate.length).join(', ')}`);
+        }
+
+        if (namesToCreate.length > 0) {
+            try {
+                await channel.setAvailableTags(
+                    [...channel.availableTags, ...namesToCreate.map(name => ({ name, moderated: false }))],
+                    'Adding recruitment tags'
+                );
+                log.info(`Created forum tags: ${namesToCreate.join(', ')}`);
+            } catch (error) {
+                log.error(`Failed to create forum tags: ${error}`);
+            }
+        }
+    }
+
+    return tagNames
+        .map(name => findTag(name)?.id)
+        .filter((id): id is string => Boolean(id))
+        .slice(0, MAX_APPLIED_TAGS);
+};
@@ -0,0 +1,85 @@
+import { ColumnMap } from './ColumnMap';
+
+export type GameTemplateId = 'wow' | 'ffxiv' | 'destiny';
+export const GAME_TEMPLATE_IDS: GameTemplateId[] = ['wow', 'ffxiv', 'destiny'];
+
+// Everything that differs between games: the faction column's values (one forum each), the class columns
+// ("[Warrior]") and the roles listed in them, default emotes and the form's usual column headers
+export interface GameTemplate {
+    id: GameTemplateId;
+    name: string;
+    factions: string[];
+    classes: string[];
+    roles: string[];
+    emotes: Record<string, string>;      // By class column ("[Warrior]") or role
+    fallbackLabels: Record<string, string>; // Shown for roles whose emote isn't available
+    columnNames: ColumnMap;              // Tried before the column auto-detection
+}
+
+export const GAME_TEMPLATES: Record<GameTemplateId, GameTemplate> = {
+    wow: {
+        id: 'wow',
+        name: 'World of Warcraft',
+        factions: ['Alliance', 'Horde'],
+        classes: ['Warrior', 'Mage', 'Warlock', 'Hunter', 'Rogue', 'Druid', 'Priest', 'Paladin', 'Shaman', 'Monk', 'Evoker', 'Demon Hunter', 'Death Knight'],
+        roles: ['Tank', 'Healer', 'DPSMelee', 'DPSRanged'],
+        emotes: {
+            '[Warrior]': '<:wa_i:1281118860514164759>',
+            '[Mage]': '<:ma_i:1281118847151247424>',
+            '[Warlock]': '<:wl_i:1281118899232051241>',
+            '[Hunter]': '<:hu_i:1281118845460807690>',
+            '[Rogue]': '<:ro_i:1281118853887295498>',
+            '[Druid]': '<:dr_i:1281118706424090654>',
+            '[Priest]': '<:pr_i:1281118852440133666>',
+            '[Paladin]': '<:pa_i:1281118849793659043>',
+            '[Shaman]': '<:sh_i:1281118855401574410>',
+            '[Monk]': '<:mo_i:1281118848598413414>',
+            '[Evoker]': '<:ev_i:1281118844001452086>',
+            '[Demon Hunter]': '<:dh_i:1281118841027563550>',
+            '[Death Knight]': '<:dk_i:1281118842512478319>',
+            'Tank': '<:t_i:1275165468164096192>',
+            'Healer': '<:h_i:1275165466872250388>',
+            'DPSMelee': '<:md_i:1275165464086970409>',
+            'DPSRanged': '<:rd_i:1275165465374752860>'
+        },
+        fallbackLabels: { 'Tank': '🛡️', 'Healer': '💚', 'DPSMelee': '⚔️', 'DPSRanged': '🏹' },
+        columnNames: {},
+    },
+    ffxiv: {
+        id: 'ffxiv',
+        name: 'Final Fantasy XIV',
+        factions: ['Maelstrom', 'Order of the Twin Adder', 'Immortal Flames'],
+        classes: ['Paladin', 'Warrior', 'Dark Knight', 'Gunbreaker', 'White Mage', 'Scholar', 'Astrologian', 'Sage', 'Monk', 'Dragoon',
+            'Ninja', 'Samurai', 'Reaper', 'Viper', 'Bard', 'Machinist', 'Dancer', 'Black Mage', 'Summoner', 'Red Mage', 'Pictomancer'],
+        roles: ['Tank', 'Healer', 'Melee DPS', 'Ranged DPS', 'Caster DPS'],
+        emotes: { 'Tank': '🛡️', 'Healer': '💚', 'Melee DPS': '⚔️', 'Ranged DPS': '🏹', 'Caster DPS': '🔮' },
+        fallbackLabels: {},
+        columnNames: {
+            GUILD_NAME: 'Free Company Name',
+            FACTION: 'Grand Company',
+            GUILD_TYPE: 'Free Company Type',
+            GUILD_LOGO: 'Free Company Crest',
+        },
+    },
+    destiny: {
+        id: 'destiny',
+        name: 'Destiny 2',
+        factions: [],
+        classes: ['Titan', 'Hunter', 'Warlock'],
+        roles: ['Raid', 'Dungeon', 'PvP', 'Gambit'],
+        emotes: { 'Raid': '🏛️', 'Dungeon': '🗝️', 'PvP': '🎯', 'Gambit': '🎲' },
+        fallbackLabels: {},
+        columnNames: {
+            GUILD_NAME: 'Clan Name',
+            GUILD_TYPE: 'Clan Type',
+            GUILD_LOGO: 'Clan Banner',
+        },
+    },
+};
+
+// The template a server uses; servers set up before templates existed are World of Warcraft servers
+export const getGameTemplate = (id?: string): GameTemplate => GAME_TEMPLATES[id as GameTemplateId] || GAME_TEMPLATES.wow;
+
+// The template's spelling of a class or role, or undefined when the template has no such name
+export const findTemplateName = (names: string[], text: string): string | undefined =>
+    names.find(name => name.toLowerCase() === text.trim().toLowerCase());
@@ -0,0 +1,57 @@
+import { ColumnIndices } from './ColumnMap';
+
+export interface GuildSearchQuery {
+    name?: string;
+    faction?: string;
+    guildType?: string;
+    className?: string;
+    role?: string;
+}
+
+export interface GuildSearchResult {
+    guildName: string;
+    guildType: string;
+    threadId: string;
+}
+
+const contains = (value: string | undefined, text: string) => (value || '').toLowerCase().includes(text.toLowerCase());
+
+export interface ClassNeed {
+    className: string;
+    role: string;
+}
+
+// Every class and role a row is recruiting, from class columns named "[Class]" whose cells list roles, e.g. "Tank, Healer"
+export const getClassNeeds = (headers: string[], row: string[]): ClassNeed[] => headers.flatMap((header, index) => {
+    const name = header?.trim() || '';
+    if (!name.startsWith('[') || !name.endsWith(']')) return [];
+
+    return (row[index] || '').split(',')
+        .map(role => role.trim())
+        .filter(Boolean)
+        .map(role => ({ className: name.slice(1, -1), role }));
+});
+
+// Whether a need matches a class and/or role filter; names aren't case-sensitive
+export const needMatches = (need: ClassNeed, className?: string, role?: string): boolean =>
+    (!className || need.className.toLowerCase() === className.toLowerCase()) &&
+    (!role || need.role.toLowerCase() === role.toLowerCase());
+
+// Posted guilds matching every filter in the query, sorted by name
+export const searchGuilds = (
+    headers: string[],
+    indices: ColumnIndices,
+    postedRows: { threadId: string; row: string[] }[],
+    query: GuildSearchQuery
+): GuildSearchResult[] => postedRows
+    .filter(({ row }) => !query.name || contains(row[indices.GUILD_NAME], query.name))
+    .filter(({ row }) => !query.faction || (indices.FACTION !== -1 && row[indices.FACTION]?.trim().toLowerCase() === query.faction.toLowerCase()))
+    .filter(({ row }) => !query.guildType || (indices.GUILD_TYPE !== -1 && contains(row[indices.GUILD_TYPE], query.guildType)))
+    .filter(({ row }) => (!query.className && !query.role) ||
+        getClassNeeds(headers, row).some(need => needMatches(need, query.className, query.role)))
+    .map(({ threadId, row }) => ({
+        guildName: row[indices.GUILD_NAME].trim(),
+        guildType: indices.GUILD_TYPE !== -1 ? row[indices.GUILD_TYPE]?.trim() || '' : '',
+        threadId,
+    }))
+    .sort((a, b) => a.guildName.localeCompare(b.guildName));
@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface LogContext {
+    guildId?: string;
+    channel?: string;
+    action?: string;
+}
+
+export interface LogEntry extends LogContext {
+    time: string;
+    level: LogLevel;
+    message: string;
+}
+
+// `LOGGING` in botsettings.json
+export interface LoggingSettings {
+    LEVEL?: LogLevel;
+    CONSOLE_FORMAT?: 'text' | 'json';
+    FILE?: string;
+    FILE_FORMAT?: 'text' | 'json';
+    MAX_FILE_SIZE_MB?: number;
+    MAX_FILES?: number;
+}
+
+// Entries logged while posting to the mod forum are never mirrored there, so a broken mod channel can't feed itself
+export const MOD_NOTICE_ACTION = 'mod-notice';
+
+const MAX_MIRRORED_ENTRIES = 50;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+    debug: '90',
+    info: '37',
+    warn: '33',
+    error: '31',
+};
+
+const colorize = (text: string, colorCode: string): string => `\x1b[${colorCode}m${text}\x1b[0m`;
+
+let settings: LoggingSettings = {};
+const guildLevels = new Map<string, LogLevel>();
+const mirroredGuilds = new Set<string>();
+const mirrorBuffers = new Map<string, LogEntry[]>();
+
+export const isLogLevel = (value: unknown): value is LogLevel => LOG_LEVELS.includes(value as LogLevel);
+
+export const configureLogging = (newSettings: LoggingSettings = {}) => {
+    settings = newSettings;
+};
+
+// Per-server verbosity and whether its warnings and errors are collected for the mod forum
+export const setGuildLogOptions = (guildId: string, level?: string, mirrorToMod?: boolean) => {
+    if (isLogLevel(level)) {
+        guildLevels.set(guildId, level);
+    } else {
+        guildLevels.delete(guildId);
+    }
+
+    if (mirrorToMod) {
+        mirroredGuilds.add(guildId);
+    } else {
+        mirroredGuilds.delete(guildId);
+        mirrorBuffers.delete(guildId);
+    }
+};
+
+// Warnings and errors collected for a server since the last call
+export const takeMirroredEntries = (guildId: string): LogEntry[] => {
+    const entries = mirrorBuffers.get(guildId) || [];
+    mirrorBuffers.delete(guildId);
+    return entries;
+};
+
+const formatText = (entry: LogEntry): string => {
+    const context = [
+        entry.guildId && `guild ${entry.guildId}`,
+        entry.channel && `#${entry.channel}`,
+        entry.action,
+    ].filter(Boolean).map(part => `[${part}]`).join(' ');
+
+    return `${entry.time} ${entry.level.toUpperCase().padEnd(5)} ${context ? `${context} ` : ''}${entry.message}`;
+};
+
+const formatEntry = (entry: LogEntry, format: 'text' | 'json' = 'text'): string =>
+    format === 'json' ? JSON.stringify(entry) : formatText(entry);
+
+// Shift log.1 → log.2 and so on, dropping the oldest, then move the current file to log.1
+const rotateLogFile = (filePath: string, maxFiles: number) => {
+    for (let index = maxFiles - 1; index >= 1; index--) {
+        const source = `${filePath}.${index}`;
+        if (fs.existsSync(source)) {
+            fs.renameSync(source, `${filePath}.${index + 1}`);
+        }
+    }
+    fs.renameSync(filePath, `${filePath}.1`);
+};
+
+const writeToFile = (entry: LogEntry) => {
+    if (!settings.FILE) return;
+
+    const filePath = path.resolve(__dirname, settings.FILE);
+    const maxBytes = (settings.MAX_FILE_SIZE_MB || 10) * 1024 * 1024;
+
+    try {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        if (fs.existsSync(filePath) && fs.statSync(filePath).size >= maxBytes) {
+            rotateLogFile(filePath, settings.MAX_FILES || 5);
+        }
+        fs.appendFileSync(filePath, `${formatEntry(entry, settings.FILE_FORMAT || 'json')}\n`);
+    } catch (error) {
+        console.error(`Failed to write log file ${filePath}: ${error}`);
+    }
+};
+
+const mirrorEntry = (entry: LogEntry) => {
+    if (!entry.guildId || !mirroredGuilds.has(entry.guildId) || entry.action === MOD_NOTICE_ACTION) return;
+
+    const entries = mirrorBuffers.get(entry.guildId) || [];
+    if (entries.length >= MAX_MIRRORED_ENTRIES || entries.some(existing => existing.message === entry.message)) return;
+
+    entries.push(entry);
+    mirrorBuffers.set(entry.guildId, entries);
+};
+
+export class Logger {
+    constructor(private context: LogContext = {}) {}
+
+    public child(context: LogContext): Logger {
+        return new Logger({ ...this.context, ...context });
+    }
+
+    public debug(message: string, context?: LogContext) {
+        this.write('debug', message, context);
+    }
+
+    public info(message: string, context?: LogContext) {
+        this.write('info', message, context);
+    }
+
+    public warn(message: string, context?: LogContext) {
+        this.write('warn', message, context);
+    }
+
+    public error(message: string, context?: LogContext) {
+        this.write('error', message, context);
+    }
+
+    private write(level: LogLevel, message: string, context?: LogContext) {
+        const entry: LogEntry = { time: new Date().toISOString(), level, ...this.context, ...context, message: message.trim() };
+
+        // A server's own level wins over the bot-wide one
+        const minimumLevel = (entry.guildId && guildLevels.get(entry.guildId)) || settings.LEVEL || 'info';
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel)) return;
+
+        const line = settings.CONSOLE_FORMAT === 'json' ? formatEntry(entry, 'json') : colorize(formatText(entry), LEVEL_COLORS[level]);
+        if (level === 'error') {
+            console.error(line);
+        } else if (level === 'warn') {
+            console.warn(line);
+        } else {
+            console.log(line);
+        }
+
+        writeToFile(entry);
+
+        if (level === 'warn' || level === 'error') {
+            mirrorEntry(entry);
+        }
+    }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPrivateAddress } from './LogoImages';
+
+// Every form a URL host can take for an internal address, including the ones `new URL` normalizes IPv6 literals to
+test('isPrivateAddress refuses private addresses in every IPv6 form', () => {
+    const hosts = [
+        '127.0.0.1', '10.1.2.3', '169.254.169.254', '192.168.0.1', '0.0.0.0',
+        '[::1]', '::', 'fe80::1', 'fd00::1',
+        '::ffff:127.0.0.1', new URL('http://[::ffff:127.0.0.1]/').hostname, '::ffff:a9fe:a9fe',
+        '::7f00:1', '::127.0.0.1',
+        '::ffff:0:7f00:1',
+        '64:ff9b::7f00:1', '64:ff9b::10.0.0.1',
+        '2002:7f00:1::1',
+    ];
+    for (const host of hosts) {
+        assert.equal(isPrivateAddress(host), true, host);
+    }
+});
+
+test('isPrivateAddress allows public addresses', () => {
+    const hosts = ['8.8.8.8', '162.159.128.233', '2606:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808', 'cdn.discordapp.com'];
+    for (const host of hosts) {
+        assert.equal(isPrivateAddress(host), false, host);
+    }
+});
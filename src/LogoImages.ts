@@ -0,0 +1,282 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import sharp from 'sharp';
+import { google } from 'googleapis';
+import { logger } from './Logger';
+import { getGoogleAuth } from './DataSources';
+
+// Guild logos are downloaded once, checked, shrunk to at most MAX_LOGO_SIZE pixels a side, stripped of metadata and
+// kept as PNG in the cache, keyed by a hash of their URL, so reposts and edits reuse them.
+const MAX_DOWNLOAD_BYTES = 8 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+const MAX_LOGO_SIZE = 512;
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif', 'heif'];
+
+// A logo that failed isn't tried again for a while, so a broken link costs one download per hour instead of one per cycle
+const FAILURE_RETRY_MS = 60 * 60 * 1000;
+// Cached logos unused for this long are deleted
+const CACHE_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The cache lives next to the other runtime files
+const logoCacheDirectory = path.resolve(__dirname, 'logo-cache');
+
+const failedUrls = new Map<string, { failedAt: number; error: LogoError }>();
+let lastPrunedAt = 0;
+
+export class LogoError extends Error {
+    constructor(public readonly url: string, problem: string) {
+        super(`Logo ${url} ${problem}`);
+        this.name = 'LogoError';
+    }
+}
+
+// Where a logo link's image really is: a Google Drive file (Google Form uploads), or a direct image URL. Share pages
+// of image hosts are turned into their direct-image links; other links are tried as they are.
+export type LogoSource = { kind: 'drive'; fileId: string } | { kind: 'url'; url: string };
+
+export const resolveLogoLink = (link: string): LogoSource => {
+    let url: URL;
+    try {
+        url = new URL(link);
+    } catch {
+        return { kind: 'url', url: link };
+    }
+
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    // drive.google.com/open?id=ID, /uc?id=ID, /file/d/ID/view and docs.google.com/uc?id=ID
+    if (host === 'drive.google.com' || host === 'docs.google.com') {
+        const fileId = url.searchParams.get('id') || (segments[0] === 'file' && segments[1] === 'd' ? segments[2] : null);
+        if (fileId) return { kind: 'drive', fileId };
+    }
+
+    // imgur.com/ID is a page; i.imgur.com serves the image under any extension. Albums have no single image.
+    if (host === 'imgur.com' || host === 'm.imgur.com') {
+        if (segments.length === 1 && /^\w+$/.test(segments[0])) {
+            return { kind: 'url', url: `https://i.imgur.com/${segments[0]}.png` };
+        }
+    }
+
+    // media.discordapp.net serves resized previews of the attachments on cdn.discordapp.com
+    if (host === 'media.discordapp.net' && segments[0] === 'attachments') {
+        url.hostname = 'cdn.discordapp.com';
+        ['width', 'height', 'format', 'quality'].forEach(param => url.searchParams.delete(param));
+        return { kind: 'url', url: url.toString() };
+    }
+
+    if (host === 'gyazo.com' && segments.length === 1 && /^\w+$/.test(segments[0])) {
+        return { kind: 'url', url: `https://i.gyazo.com/${segments[0]}.png` };
+    }
+
+    // Dropbox share links show a page unless asked for the raw file
+    if (host === 'dropbox.com') {
+        url.searchParams.delete('dl');
+        url.searchParams.set('raw', '1');
+        return { kind: 'url', url: url.toString() };
+    }
+
+    return { kind: 'url', url: link };
+};
+
+// Loopback, private, link-local, carrier-grade NAT, reserved and multicast ranges, which a submitted URL must never reach
+const privateRanges = new net.BlockList();
+([
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as [string, number][]).forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv4'));
+([
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as [string, number][]).forEach(([network, prefix]) => privateRanges.addSubnet(network, prefix, 'ipv6'));
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a trailing dotted IPv4 part converted
+const toIPv6Groups = (address: string): number[] => {
+    let text = address;
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        text = `${text.slice(0, -dotted[0].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+
+    const [head, tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+        ? headGroups
+        : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+    return groups.map(group => parseInt(group, 16));
+};
+
+const toIPv4 = (high: number, low: number): string => `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+
+// Whether an IP address is private. IPv6 forms that carry an IPv4 address (mapped, compatible, translated, NAT64 and
+// 6to4) are judged by that IPv4 address, so "[::ffff:7f00:1]" counts as 127.0.0.1.
+export const isPrivateAddress = (address: string): boolean => {
+    const host = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+    const version = net.isIP(host);
+    if (version === 4) return privateRanges.check(host, 'ipv4');
+    if (version !== 6) return false;
+    if (privateRanges.check(host, 'ipv6')) return true;
+
+    const groups = toIPv6Groups(host.toLowerCase());
+    const isZero = (from: number, to: number) => groups.slice(from, to).every(group => group === 0);
+    if (isZero(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) return isPrivateAddress(toIPv4(groups[6], groups[7]));
+    if (isZero(0, 4) && groups[4] === 0xffff && groups[5] === 0) return isPrivateAddress(toIPv4(groups[6], groups[7]));
+    if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPrivateAddress(toIPv4(groups[6], groups[7]));
+    if (groups[0] === 0x2002) return isPrivateAddress(toIPv4(groups[1], groups[2]));
+    return false;
+};
+
+// Resolves host names like dns.lookup, refusing private addresses. It runs for every connection, redirects included,
+// so a host can't pass the check and then resolve somewhere else.
+const safeLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error);
+
+        const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+        if (blocked) return callback(new Error(`${hostname} resolves to the private address ${blocked.address}`));
+
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}) as unknown as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+// IP addresses in URLs skip the lookup, so they are checked on their own
+const checkHost = (url: string, hostname: string) => {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (isPrivateAddress(host)) {
+        throw new LogoError(url, `points to the private address ${host}`);
+    }
+};
+
+// Form uploads are private files; the bot's service account needs the upload folder shared with it
+const downloadDriveFile = async (url: string, fileId: string): Promise<Buffer> => {
+    const drive = google.drive({ version: 'v3', auth: getGoogleAuth() });
+
+    let file;
+    try {
+        file = (await drive.files.get({ fileId, fields: 'mimeType,size', supportsAllDrives: true })).data;
+    } catch (error: any) {
+        const status = error?.response?.status ?? error?.code;
+        throw new LogoError(url, status === 404 || status === 403
+            ? `is a Google Drive file the bot can't open; share the form's upload folder with ${getGoogleAuth().email}`
+            : `could not be read from Google Drive: ${error}`);
+    }
+
+    if (!file.mimeType?.startsWith('image/')) {
+        throw new LogoError(url, `is a ${file.mimeType || 'unknown'} file on Google Drive, not an image`);
+    }
+    if (Number(file.size) > MAX_DOWNLOAD_BYTES) {
+        throw new LogoError(url, `is larger than ${MAX_DOWNLOAD_BYTES / 1024 / 1024} MB`);
+    }
+
+    const response = await drive.files.get(
+        { fileId, alt: 'media', supportsAllDrives: true },
+        { responseType: 'arraybuffer', signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) }
+    );
+    return Buffer.from(response.data as ArrayBuffer);
+};
+
+const download = async (url: string): Promise<Buffer> => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new LogoError(url, 'is not a valid URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new LogoError(url, 'must be an http or https link');
+    }
+    checkHost(url, parsed.hostname);
+
+    const response = await axios.get(url, {
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_DOWNLOAD_BYTES,
+        maxRedirects: 5,
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+        httpAgent,
+        httpsAgent,
+        proxy: false,
+        beforeRedirect: options => checkHost(url, options.hostname),
+    });
+    return Buffer.from(response.data);
+};
+
+// Check that the download is an image and turn it into a small PNG without metadata; animations keep their first frame
+const processLogo = async (url: string, data: Buffer): Promise<Buffer> => {
+    let format: string | undefined;
+    try {
+        format = (await sharp(data).metadata()).format;
+    } catch {
+        throw new LogoError(url, 'is not an image');
+    }
+    if (!format || !ACCEPTED_FORMATS.includes(format)) {
+        throw new LogoError(url, `is a ${format || 'unknown'} file, not a PNG, JPEG, WebP, GIF or AVIF image`);
+    }
+
+    return sharp(data)
+        .rotate() // Apply the EXIF orientation before the metadata is dropped
+        .resize({ width: MAX_LOGO_SIZE, height: MAX_LOGO_SIZE, fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+};
+
+const pruneLogoCache = () => {
+    if (Date.now() - lastPrunedAt < 24 * 60 * 60 * 1000) return;
+    lastPrunedAt = Date.now();
+
+    for (const file of fs.readdirSync(logoCacheDirectory)) {
+        const filePath = path.join(logoCacheDirectory, file);
+        try {
+            if (Date.now() - fs.statSync(filePath).mtimeMs > CACHE_LIFETIME_MS) {
+                fs.unlinkSync(filePath);
+            }
+        } catch (error) {
+            logger.warn(`Failed to prune cached logo ${file}: ${error}`, { action: 'fetch-image' });
+        }
+    }
+};
+
+// A guild logo ready to attach, from the cache when it was fetched before. Throws a LogoError when the logo can't be used.
+export const getLogo = async (link: string): Promise<Buffer> => {
+    // Form answers with several uploads list them separated by commas; the first one is the logo
+    const url = link.split(/[,\s]+/).find(Boolean) || link;
+    const cachePath = path.join(logoCacheDirectory, `${crypto.createHash('sha256').update(url).digest('hex')}.png`);
+
+    if (fs.existsSync(cachePath)) {
+        const now = new Date();
+        fs.utimesSync(cachePath, now, now);
+        return fs.readFileSync(cachePath);
+    }
+
+    const failure = failedUrls.get(url);
+    if (failure && Date.now() - failure.failedAt < FAILURE_RETRY_MS) {
+        throw failure.error;
+    }
+
+    try {
+        const source = resolveLogoLink(url);
+        const data = source.kind === 'drive' ? await downloadDriveFile(url, source.fileId) : await download(source.url);
+        const logo = await processLogo(url, data);
+
+        fs.mkdirSync(logoCacheDirectory, { recursive: true });
+        fs.writeFileSync(cachePath, logo);
+        pruneLogoCache();
+        failedUrls.delete(url);
+        return logo;
+    } catch (caught) {
+        const error = caught instanceof LogoError ? caught
+            : new LogoError(url, `could not be downloaded: ${axios.isAxiosError(caught) && caught.code === 'ERR_CANCELED' ? 'timed out' : caught}`);
+        failedUrls.set(url, { failedAt: Date.now(), error });
+        throw error;
+    }
+};
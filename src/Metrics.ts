@@ -0,0 +1,120 @@
+// A small Prometheus-compatible metrics registry, rendered in the text exposition format by the monitoring server
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Series are keyed by their sorted labels, so label order at the call site doesn't matter
+const seriesKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+class Counter implements Metric {
+    private series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(private name: string, private help: string) {
+        registry.push(this);
+    }
+
+    public inc(labels: Labels = {}, value: number = 1) {
+        const key = seriesKey(labels);
+        const existing = this.series.get(key);
+        this.series.set(key, { labels, value: (existing?.value || 0) + value });
+    }
+
+    public render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+class Gauge implements Metric {
+    private series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(private name: string, private help: string) {
+        registry.push(this);
+    }
+
+    public set(labels: Labels, value: number) {
+        this.series.set(seriesKey(labels), { labels, value });
+    }
+
+    public render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} gauge`,
+            ...Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+class Histogram implements Metric {
+    private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(private name: string, private help: string, private buckets: number[]) {
+        registry.push(this);
+    }
+
+    public observe(labels: Labels, value: number) {
+        const key = seriesKey(labels);
+        const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+        this.buckets.forEach((bucket, index) => {
+            if (value <= bucket) series.counts[index]++;
+        });
+        series.sum += value;
+        series.count++;
+        this.series.set(key, series);
+    }
+
+    // Time an async call in seconds, recording it whether or not it succeeds
+    public async time<T>(labels: Labels, action: () => Promise<T>): Promise<T> {
+        const start = Date.now();
+        try {
+            return await action();
+        } finally {
+            this.observe(labels, (Date.now() - start) / 1000);
+        }
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+        for (const { labels, counts, sum, count } of this.series.values()) {
+            this.buckets.forEach((bucket, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+
+        return lines;
+    }
+}
+
+export const metrics = {
+    threadsPosted: new Counter('recruitbot_threads_posted_total', 'Recruitment threads posted for new submissions.'),
+    threadsReposted: new Counter('recruitbot_threads_reposted_total', 'Recruitment threads deleted and posted again to bump them.'),
+    threadsDeleted: new Counter('recruitbot_threads_deleted_total', 'Recruitment threads removed as outdated, unmatched, unrouted, merged or duplicate.'),
+    threadsFlagged: new Counter('recruitbot_threads_flagged_total', 'Threads reported to moderators for having a similar name to another.'),
+    sheetFetchSeconds: new Histogram('recruitbot_sheet_fetch_duration_seconds', 'Time taken to read a server\'s submissions.', [0.25, 0.5, 1, 2, 5, 10, 30]),
+    sheetFetchFailures: new Counter('recruitbot_sheet_fetch_failures_total', 'Failed reads of a server\'s submissions.'),
+    rateLimitHits: new Counter('recruitbot_rate_limit_hits_total', 'Discord rate limits hit by queued actions.'),
+    pollCycleSeconds: new Histogram('recruitbot_poll_cycle_duration_seconds', 'Time taken by a server\'s poll cycle.', [1, 5, 15, 30, 60, 120, 300, 600]),
+    lastSuccessfulPoll: new Gauge('recruitbot_last_successful_poll_timestamp_seconds', 'Unix time of the last poll cycle that completed for a server.'),
+};
+
+export const renderMetrics = (): string => `${registry.flatMap(metric => metric.render()).join('\n')}\n`;
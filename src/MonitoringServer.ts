@@ -0,0 +1,51 @@
+import http from 'http';
+import { Client, Status } from 'discord.js';
+import { metrics, renderMetrics } from './Metrics';
+import { logger } from './Logger';
+
+// Unix time in seconds of each server's last completed poll, for /healthz
+const lastSuccessfulPolls = new Map<string, number>();
+
+export const recordSuccessfulPoll = (guildId: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    lastSuccessfulPolls.set(guildId, now);
+    metrics.lastSuccessfulPoll.set({ guild: guildId }, now);
+};
+
+const getHealth = (client: Client) => {
+    const gatewayConnected = client.ws.status === Status.Ready;
+
+    return {
+        status: gatewayConnected ? 'ok' : 'unavailable',
+        gatewayConnected,
+        guilds: Object.fromEntries(Array.from(client.guilds.cache.values()).map(guild => {
+            const lastPoll = lastSuccessfulPolls.get(guild.id);
+            return [guild.id, { name: guild.name, lastSuccessfulPoll: lastPoll ? new Date(lastPoll * 1000).toISOString() : null }];
+        })),
+    };
+};
+
+// Serves /healthz and /metrics; only started when MONITORING_PORT is set in botsettings.json
+export const startMonitoringServer = (client: Client, port: number, host: string = '127.0.0.1') => {
+    const server = http.createServer((request, response) => {
+        const url = (request.url || '').split('?')[0];
+
+        if (request.method !== 'GET') {
+            response.writeHead(405, { Allow: 'GET' }).end();
+        } else if (url === '/healthz') {
+            const health = getHealth(client);
+            response.writeHead(health.gatewayConnected ? 200 : 503, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(health, null, 2));
+        } else if (url === '/metrics') {
+            response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+            response.end(renderMetrics());
+        } else {
+            response.writeHead(404).end();
+        }
+    });
+
+    server.on('error', error => logger.error(`Monitoring server error: ${error}`, { action: 'monitoring' }));
+    server.listen(port, host, () => logger.info(`Monitoring server listening on http://${host}:${port}`, { action: 'monitoring' }));
+
+    return server;
+};
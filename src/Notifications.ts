@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+import { ClassNeed, needMatches } from './GuildSearch';
+
+// A player's alert: any combination of class, role and faction, with at least a class or a role
+export interface Subscription {
+    className?: string;
+    role?: string;
+    faction?: string;
+}
+
+interface NotificationData {
+    subscriptions: Record<string, Subscription[]>; // By user ID
+    lastNotifiedAt: Record<string, string>;
+}
+
+export const MAX_SUBSCRIPTIONS_PER_USER = 10;
+
+// Notification files live next to the other runtime settings, one file per server
+const notificationDirectory = path.resolve(__dirname, 'notifications');
+
+export const describeSubscription = (subscription: Subscription): string =>
+    [subscription.className, subscription.role, subscription.faction && `(${subscription.faction})`].filter(Boolean).join(' ');
+
+// The needs a subscription is waiting for, among a post's needs; empty when it doesn't match
+export const matchSubscription = (subscription: Subscription, faction: string | undefined, needs: ClassNeed[]): ClassNeed[] => {
+    if (subscription.faction && subscription.faction.toLowerCase() !== (faction || '').trim().toLowerCase()) return [];
+    return needs.filter(need => needMatches(need, subscription.className, subscription.role));
+};
+
+// Both the poll cycle and /notify write subscriptions, so every write re-reads the file first
+export class NotificationStore {
+    private data: NotificationData;
+
+    private constructor(private filePath: string) {
+        this.data = this.read();
+    }
+
+    public static load(guildId: string): NotificationStore {
+        return new NotificationStore(path.join(notificationDirectory, `${guildId}.json`));
+    }
+
+    private read(): NotificationData {
+        if (!fs.existsSync(this.filePath)) return { subscriptions: {}, lastNotifiedAt: {} };
+
+        try {
+            const { subscriptions = {}, lastNotifiedAt = {} } = JSON.parse(fs.readFileSync(this.filePath, 'utf-8') || '{}');
+            return { subscriptions, lastNotifiedAt };
+        } catch (error) {
+            logger.error(`Failed to read notification subscriptions ${this.filePath}: ${error}`);
+            return { subscriptions: {}, lastNotifiedAt: {} };
+        }
+    }
+
+    private write(change: (data: NotificationData) => void) {
+        this.data = this.read();
+        change(this.data);
+
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify(this.data, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save notification subscriptions ${this.filePath}: ${error}`);
+        }
+    }
+
+    public getSubscriptions(userId: string): Subscription[] {
+        return this.data.subscriptions[userId] || [];
+    }
+
+    public setSubscriptions(userId: string, subscriptions: Subscription[]) {
+        this.write(data => {
+            if (subscriptions.length > 0) {
+                data.subscriptions[userId] = subscriptions;
+            } else {
+                delete data.subscriptions[userId];
+            }
+        });
+    }
+
+    // Users with a subscription matching the post, with the needs each one matched, leaving out users
+    // alerted less than the cooldown ago
+    public findSubscribers(faction: string | undefined, needs: ClassNeed[], cooldownMs: number, now: number = Date.now()): Map<string, ClassNeed[]> {
+        const subscribers = new Map<string, ClassNeed[]>();
+
+        for (const [userId, subscriptions] of Object.entries(this.data.subscriptions)) {
+            const lastNotifiedAt = this.data.lastNotifiedAt[userId];
+            if (lastNotifiedAt && now - Date.parse(lastNotifiedAt) < cooldownMs) continue;
+
+            const matched = subscriptions.flatMap(subscription => matchSubscription(subscription, faction, needs));
+            if (matched.length > 0) {
+                subscribers.set(userId, matched.filter((need, index) =>
+                    matched.findIndex(other => other.className === need.className && other.role === need.role) === index));
+            }
+        }
+
+        return subscribers;
+    }
+
+    public recordNotified(userIds: string[], now: Date = new Date()) {
+        this.write(data => {
+            for (const userId of userIds) {
+                data.lastNotifiedAt[userId] = now.toISOString();
+            }
+        });
+    }
+}
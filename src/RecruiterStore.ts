@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { User } from 'discord.js';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+import { createEntryMap } from './ThreadLedger';
+
+// What a guild's recruiters asked for with /myguild; requests are carried out by the next poll cycle
+export interface RecruiterEntry {
+    guildName: string;
+    owners?: string[]; // User IDs a moderator linked to the guild
+    paused?: boolean;
+    // Hash of the row the recruiter removed; the ad stays down until the submission changes
+    removedHash?: string;
+    bumpRequestedAt?: string;
+    lastBumpRequestAt?: string;
+}
+
+// Recruiter files live next to the other runtime settings, one file per server
+const recruiterDirectory = path.resolve(__dirname, 'recruiters');
+
+// Whether a "Discord Contact" cell names this user: a mention, an ID, a username or a legacy tag, with or without "@".
+// Display names are not unique and anyone can take one, so they never count.
+export const isGuildContact = (contact: string | undefined, user: User): boolean => {
+    const text = contact?.trim().toLowerCase().replace(/^@/, '');
+    if (!text) return false;
+
+    const names = [user.id, `<@${user.id}>`, `<@!${user.id}>`, user.username, user.tag]
+        .filter((name): name is string => !!name)
+        .map(name => name.toLowerCase());
+    return names.includes(text) || names.includes(text.replace(/#0$/, ''));
+};
+
+// Both the poll cycle and /myguild write entries, so every write re-reads the file first
+export class RecruiterStore {
+    private entries: Record<string, RecruiterEntry>;
+
+    private constructor(private filePath: string) {
+        this.entries = this.read();
+    }
+
+    public static load(guildId: string): RecruiterStore {
+        return new RecruiterStore(path.join(recruiterDirectory, `${guildId}.json`));
+    }
+
+    private read(): Record<string, RecruiterEntry> {
+        if (!fs.existsSync(this.filePath)) return createEntryMap();
+
+        try {
+            return createEntryMap(JSON.parse(fs.readFileSync(this.filePath, 'utf-8') || '{}'));
+        } catch (error) {
+            logger.error(`Failed to read recruiter store ${this.filePath}: ${error}`);
+            return createEntryMap();
+        }
+    }
+
+    public get(key: string): RecruiterEntry | undefined {
+        return this.entries[key];
+    }
+
+    public all(): Record<string, RecruiterEntry> {
+        return this.entries;
+    }
+
+    // Whether the recruiter paused the ad, or removed it and hasn't resubmitted since
+    public isHidden(key: string, contentHash: string): boolean {
+        const entry = this.entries[key];
+        return !!entry && (!!entry.paused || entry.removedHash === contentHash);
+    }
+
+    public set(key: string, entry: RecruiterEntry) {
+        this.entries = this.read();
+        this.entries[key] = entry;
+
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save recruiter store ${this.filePath}: ${error}`);
+        }
+    }
+
+    // Apply a change to the latest saved entry, so concurrent writers don't undo each other
+    public update(key: string, change: (entry: RecruiterEntry | undefined) => RecruiterEntry) {
+        this.entries = this.read();
+        this.set(key, change(this.entries[key]));
+    }
+}
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+
+export type RepostStrategy = 'oldest-first' | 'round-robin' | 'weighted';
+export const REPOST_STRATEGIES: RepostStrategy[] = ['oldest-first', 'round-robin', 'weighted'];
+
+// A posted entry that may be bumped; lastBumpedAt is when its current thread was posted, in milliseconds
+export interface RotationCandidate {
+    key: string;
+    lastBumpedAt: number;
+    weight: number;
+}
+
+export interface RotationSettings {
+    strategy: RepostStrategy;
+    threadAgeLimitMs: number;
+    maxRepostsPerHour?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Choose the entry to bump next among those over the age limit:
+// - oldest-first: the one posted longest ago
+// - round-robin: the next one after the last bumped, in a fixed order, so every entry is bumped once before any is bumped twice
+// - weighted: the longest wait scaled by the entry's priority weight, so a weight of 2 is bumped about twice as often
+export const pickNextRepost = <T extends RotationCandidate>(strategy: RepostStrategy, candidates: T[], cursor: string | undefined, now: number): T | undefined => {
+    if (candidates.length === 0) return undefined;
+
+    if (strategy === 'round-robin') {
+        const ordered = [...candidates].sort((a, b) => a.key.localeCompare(b.key));
+        return ordered.find(candidate => cursor === undefined || candidate.key > cursor) || ordered[0];
+    }
+
+    const score = (candidate: T) => strategy === 'weighted'
+        ? (now - candidate.lastBumpedAt) * Math.max(candidate.weight, 0)
+        : now - candidate.lastBumpedAt;
+
+    return candidates.reduce((best, candidate) =>
+        score(candidate) > score(best) || (score(candidate) === score(best) && candidate.lastBumpedAt < best.lastBumpedAt) ? candidate : best
+    );
+};
+
+// A priority column's cell as a weight: a value from the weights map (not case-sensitive), a positive number, or 1
+export const getRepostWeight = (value: string | undefined, weights: Record<string, number> = {}): number => {
+    const text = value?.trim();
+    if (!text) return 1;
+
+    const mapped = Object.entries(weights).find(([name]) => name.toLowerCase() === text.toLowerCase());
+    if (mapped) return mapped[1];
+
+    const number = Number(text);
+    return Number.isFinite(number) && number > 0 ? number : 1;
+};
+
+// Per-server rotation progress: the round-robin position in each channel and the reposts made in the last hour
+export class RotationState {
+    private constructor(
+        private filePath: string,
+        private cursors: Record<string, string>,
+        private reposts: number[]
+    ) {}
+
+    public static load(guildId: string): RotationState {
+        const filePath = path.join(rotationDirectory, `${guildId}.json`);
+        if (!fs.existsSync(filePath)) return new RotationState(filePath, {}, []);
+
+        try {
+            const { cursors = {}, reposts = [] } = JSON.parse(fs.readFileSync(filePath, 'utf-8') || '{}');
+            return new RotationState(filePath, cursors, reposts.map((time: string) => Date.parse(time)));
+        } catch (error) {
+            logger.error(`Failed to read rotation state ${filePath}: ${error}`, { guildId, action: 'repost' });
+            return new RotationState(filePath, {}, []);
+        }
+    }
+
+    public getCursor(channelId: string): string | undefined {
+        return this.cursors[channelId];
+    }
+
+    public recentRepostTimes(now: number = Date.now()): number[] {
+        return this.reposts.filter(time => now - time < HOUR_MS);
+    }
+
+    public recordRepost(channelId: string, key: string, now: number = Date.now()) {
+        this.cursors[channelId] = key;
+        this.reposts = [...this.recentRepostTimes(now), now];
+    }
+
+    public save() {
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify({
+                cursors: this.cursors,
+                reposts: this.reposts.map(time => new Date(time).toISOString()),
+            }, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save rotation state ${this.filePath}: ${error}`, { action: 'repost' });
+        }
+    }
+}
+
+// Rotation files live next to the other runtime settings, one file per server
+const rotationDirectory = path.resolve(__dirname, 'rotation');
+
+// Whether the hourly cap allows another repost, given the times of the reposts already made
+export const isUnderHourlyCap = (repostTimes: number[], now: number, maxRepostsPerHour?: number): boolean =>
+    !maxRepostsPerHour || repostTimes.filter(time => now - time < HOUR_MS).length < maxRepostsPerHour;
+
+// Simulate the poll cycles ahead, bumping at most one entry per channel per cycle as the poll cycle does,
+// and return when each entry would next be bumped; entries not bumped within the horizon are left out
+export const projectNextBumps = (
+    channels: Map<string, RotationCandidate[]>,
+    state: RotationState,
+    settings: RotationSettings,
+    pollIntervalMs: number,
+    horizonMs: number = 7 * 24 * HOUR_MS
+): Map<string, number> => {
+    const entries = new Map(Array.from(channels).map(([channelId, candidates]) => [channelId, candidates.map(candidate => ({ ...candidate }))]));
+    const cursors = new Map(Array.from(channels.keys()).map(channelId => [channelId, state.getCursor(channelId)]));
+    const entryCount = Array.from(entries.values()).reduce((count, candidates) => count + candidates.length, 0);
+    const bumps = new Map<string, number>();
+    let repostTimes = state.recentRepostTimes();
+
+    const start = Date.now();
+    for (let now = start; now <= start + horizonMs && bumps.size < entryCount; now += Math.max(pollIntervalMs, 1000)) {
+        for (const [channelId, candidates] of entries) {
+            if (!isUnderHourlyCap(repostTimes, now, settings.maxRepostsPerHour)) break;
+
+            const due = candidates.filter(candidate => now - candidate.lastBumpedAt >= settings.threadAgeLimitMs);
+            const picked = pickNextRepost(settings.strategy, due, cursors.get(channelId), now);
+            if (!picked) continue;
+
+            if (!bumps.has(picked.key)) bumps.set(picked.key, now);
+
+            picked.lastBumpedAt = now;
+            cursors.set(channelId, picked.key);
+            repostTimes = [...repostTimes.filter(time => now - time < HOUR_MS), now];
+        }
+    }
+
+    return bumps;
+};
+
+// When one entry would next be bumped, or null if not within the horizon
+export const projectNextBump = (
+    targetKey: string,
+    channels: Map<string, RotationCandidate[]>,
+    state: RotationState,
+    settings: RotationSettings,
+    pollIntervalMs: number,
+    horizonMs?: number
+): number | null => projectNextBumps(channels, state, settings, pollIntervalMs, horizonMs).get(targetKey) ?? null;
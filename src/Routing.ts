@@ -0,0 +1,78 @@
+import { COLUMN_KEYS, ColumnKey, ColumnMap, resolveColumnIndices } from './ColumnMap';
+
+// One entry of a server's `ROUTING_RULES`: rows whose COLUMN matches VALUE are posted in CHANNEL_ID
+export interface RoutingRule {
+    COLUMN: string;           // Sheet header, or a column key such as "FACTION" to follow the column map
+    VALUE: string | string[]; // Matched case-insensitively against the trimmed cell
+    CHANNEL_ID: string;
+}
+
+export interface RoutingSettings {
+    RULES: RoutingRule[];
+    FALLBACK_CHANNEL_ID?: string;
+}
+
+// Routing for a server; servers set up before routing rules existed route by faction
+export const getRoutingSettings = (serverConfig: Record<string, any>): RoutingSettings => {
+    if (Array.isArray(serverConfig.ROUTING_RULES)) {
+        return {
+            RULES: serverConfig.ROUTING_RULES,
+            FALLBACK_CHANNEL_ID: serverConfig.FALLBACK_CHANNEL_ID || undefined,
+        };
+    }
+
+    const rules: RoutingRule[] = [];
+    if (serverConfig.ALLIANCE_CHANNEL_ID) {
+        rules.push({ COLUMN: 'FACTION', VALUE: 'Alliance', CHANNEL_ID: serverConfig.ALLIANCE_CHANNEL_ID });
+    }
+    if (serverConfig.HORDE_CHANNEL_ID) {
+        rules.push({ COLUMN: 'FACTION', VALUE: 'Horde', CHANNEL_ID: serverConfig.HORDE_CHANNEL_ID });
+    }
+
+    return { RULES: rules, FALLBACK_CHANNEL_ID: serverConfig.FALLBACK_CHANNEL_ID || undefined };
+};
+
+// Replace the rule for a column value (or add it), converting legacy faction settings to rules first
+export const setRoutingRule = (serverConfig: Record<string, any>, column: string, value: string, channelId: string) => {
+    const { RULES } = getRoutingSettings(serverConfig);
+    const isSameRule = (rule: RoutingRule) => rule.COLUMN.toLowerCase() === column.toLowerCase() &&
+        [rule.VALUE].flat().some(v => v.toLowerCase() === value.toLowerCase());
+
+    const existingIndex = RULES.findIndex(isSameRule);
+    const rule = { COLUMN: column, VALUE: value, CHANNEL_ID: channelId };
+
+    serverConfig.ROUTING_RULES = existingIndex === -1
+        ? [...RULES, rule]
+        : RULES.map((r, index) => index === existingIndex ? rule : r);
+};
+
+// Every forum channel a server posts in, without duplicates
+export const getRoutedChannelIds = (routing: RoutingSettings): string[] => {
+    const channelIds = routing.RULES.map(rule => rule.CHANNEL_ID);
+    if (routing.FALLBACK_CHANNEL_ID) {
+        channelIds.push(routing.FALLBACK_CHANNEL_ID);
+    }
+    return Array.from(new Set(channelIds.filter(Boolean)));
+};
+
+const getColumnIndex = (column: string, headers: string[], columnMap?: ColumnMap, templateColumns?: ColumnMap): number => {
+    if (COLUMN_KEYS.includes(column as ColumnKey)) {
+        return resolveColumnIndices(headers, columnMap, templateColumns).indices[column as ColumnKey];
+    }
+    return headers.findIndex(header => header?.trim().toLowerCase() === column.trim().toLowerCase());
+};
+
+// Channel a row is posted in: the first matching rule, else the fallback channel, else none
+export const routeRow = (routing: RoutingSettings, headers: string[], row: string[], columnMap?: ColumnMap, templateColumns?: ColumnMap): string | null => {
+    for (const rule of routing.RULES) {
+        const columnIndex = getColumnIndex(rule.COLUMN, headers, columnMap, templateColumns);
+        if (columnIndex === -1) continue;
+
+        const cell = row[columnIndex]?.trim().toLowerCase();
+        if (cell && [rule.VALUE].flat().some(value => value.trim().toLowerCase() === cell)) {
+            return rule.CHANNEL_ID;
+        }
+    }
+
+    return routing.FALLBACK_CHANNEL_ID || null;
+};
@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RateLimitError } from 'discord.js';
+import { logger } from './Logger';
+import { metrics } from './Metrics';
+
+export interface ActionQueueOptions {
+    maxActionsPerMinute: number;
+    maxRetries: number;
+    baseBackoffMs: number;
+    timeoutMs: number;
+}
+
+export class ActionTimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ActionTimeoutError';
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Set while a queued action runs, and carried through the REST calls it makes
+const queuedActions = new AsyncLocalStorage<string>();
+
+// Whether the current call was made by an action the queue runs, so its rate limits can be thrown to the queue's retry
+export const isQueuedAction = (): boolean => queuedActions.getStore() !== undefined;
+
+// Reject if the promise hasn't settled in time; the underlying request is not cancelled
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> => {
+    let timer: NodeJS.Timeout;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ActionTimeoutError(message)), timeoutMs);
+    });
+
+    return Promise.race([promise, timeoutPromise]).then(
+        result => { clearTimeout(timer); return result; },
+        error => { clearTimeout(timer); throw error; }
+    );
+};
+
+// Runs Discord write actions under one bot-wide budget, retrying rate-limited ones with backoff.
+// Actions are keyed, so queuing an action that is already queued or running reuses it instead.
+export class ActionQueue {
+    private pending = new Map<string, Promise<unknown>>();
+    private actionTimes: number[] = [];
+    private budgetLock: Promise<void> = Promise.resolve();
+
+    constructor(private options: ActionQueueOptions) {}
+
+    public setMaxActionsPerMinute(maxActionsPerMinute: number) {
+        this.options.maxActionsPerMinute = maxActionsPerMinute;
+    }
+
+    public run<T>(key: string, action: () => Promise<T>): Promise<T> {
+        const existing = this.pending.get(key);
+        if (existing) return existing as Promise<T>;
+
+        const promise = (async () => {
+            try {
+                return await this.execute(key, action);
+            } finally {
+                this.pending.delete(key);
+            }
+        })();
+
+        this.pending.set(key, promise);
+        return promise;
+    }
+
+    // Wait for a slot in the sliding one-minute window; waiters are served in order
+    private async acquireBudget() {
+        const previous = this.budgetLock;
+        let release!: () => void;
+        this.budgetLock = new Promise<void>(resolve => (release = resolve));
+        await previous;
+
+        try {
+            while (true) {
+                const now = Date.now();
+                this.actionTimes = this.actionTimes.filter(time => now - time < 60000);
+                if (this.actionTimes.length < this.options.maxActionsPerMinute) {
+                    this.actionTimes.push(now);
+                    return;
+                }
+                await sleep(60000 - (now - this.actionTimes[0]) + 50);
+            }
+        } finally {
+            release();
+        }
+    }
+
+    private async execute<T>(key: string, action: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquireBudget();
+
+            try {
+                return await withTimeout(queuedActions.run(key, action), this.options.timeoutMs, `Action ${key} timed out`);
+            } catch (error) {
+                if (!(error instanceof RateLimitError) || attempt >= this.options.maxRetries) {
+                    throw error;
+                }
+
+                metrics.rateLimitHits.inc();
+                const backoff = Math.max(error.retryAfter, this.options.baseBackoffMs * 2 ** attempt) + Math.random() * 1000;
+                logger.warn(`Rate limited on ${key} (${error.route}), retrying in ${Math.round(backoff)}ms...`, { action: 'action-queue' });
+                await sleep(backoff);
+            }
+        }
+    }
+}
+
+// Polls each server on its own timer, so one slow server doesn't hold up the others
+export class PollScheduler {
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(private jitterRatio: number = 0.1) {}
+
+    private withJitter(intervalMs: number): number {
+        const jitter = intervalMs * this.jitterRatio;
+        return Math.max(1000, intervalMs + (Math.random() * 2 - 1) * jitter);
+    }
+
+    public isScheduled(id: string): boolean {
+        return this.timers.has(id);
+    }
+
+    // The next run is only timed once the current one finishes, so a server's task never overlaps itself
+    public schedule(id: string, getIntervalMs: () => number, task: () => Promise<void>) {
+        if (this.timers.has(id)) return;
+
+        const runAndReschedule = async () => {
+            try {
+                await task();
+            } catch (error) {
+                logger.error(`Scheduled task failed: ${error}`, { guildId: id, action: 'schedule' });
+            }
+
+            if (this.timers.has(id)) {
+                this.timers.set(id, setTimeout(runAndReschedule, this.withJitter(getIntervalMs())));
+            }
+        };
+
+        // Spread the first runs out so servers don't all start at once
+        this.timers.set(id, setTimeout(runAndReschedule, Math.random() * getIntervalMs() * this.jitterRatio));
+    }
+
+    public unschedule(id: string) {
+        clearTimeout(this.timers.get(id));
+        this.timers.delete(id);
+    }
+}
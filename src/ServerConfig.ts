@@ -0,0 +1,116 @@
+import { Client } from 'discord.js';
+import fs from 'fs';
+import path from 'path';
+import { ConfigStore, ServerSettings, createConfigStore } from './ConfigStore';
+import { DataSource, createDataSource } from './DataSources';
+import { ActionQueue } from './Scheduler';
+import { ServerManager } from './ServerManager';
+import { getRoutingSettings } from './Routing';
+import { ColumnIndices, resolveColumnIndices } from './ColumnMap';
+import { getGameTemplate } from './GameTemplates';
+import { SubmissionGroup, groupSubmissions } from './SheetDuplicates';
+import { parseTimestamp } from './Timestamps';
+
+// Define paths for configuration files
+const botSettingsPath = path.resolve(__dirname, 'botsettings.json');
+
+// Bot-wide settings, re-read on every call so edits apply without a restart
+export const readBotSettings = () => JSON.parse(fs.readFileSync(botSettingsPath, 'utf-8'));
+
+// Server settings and join times, opened on first use with the backend chosen in botsettings.json
+let configStore: ConfigStore | undefined;
+export const getConfigStore = (): ConfigStore => {
+    if (!configStore) {
+        configStore = createConfigStore(readBotSettings(), __dirname);
+    }
+    return configStore;
+};
+
+// Function to read server config
+export const readServerConfig = (serverId: string): ServerSettings => getConfigStore().getServer(serverId);
+
+// Function to save server config; throws a ConfigValidationError naming the bad field if the settings are invalid
+export const saveServerConfig = (serverId: string, config: ServerSettings) => {
+    getConfigStore().saveServer(serverId, config);
+};
+
+// The data source a server's poll cycle reads from, for commands that need the live sheet
+export const createServerDataSource = (serverId: string): DataSource => {
+    const serverConfig = readServerConfig(serverId);
+    return createDataSource(serverConfig.DATA_SOURCE, {
+        SPREADSHEET_ID: serverConfig.SPREADSHEET_ID,
+        SHEET_RANGE: readBotSettings().SHEET_RANGE,
+    });
+};
+
+// Every submission in a server's live sheet grouped by guild, for commands that act on one guild's entry
+export const readSubmissionGroups = async (serverId: string): Promise<{ headers: string[]; indices: ColumnIndices; groups: Map<string, SubmissionGroup> }> => {
+    const serverConfig = readServerConfig(serverId);
+    const rows = await createServerDataSource(serverId).fetchRows();
+    const headers: string[] = rows[0] || [];
+    const { indices } = resolveColumnIndices(headers, serverConfig.COLUMN_MAP, getGameTemplate(serverConfig.GAME_TEMPLATE).columnNames);
+    if (indices.GUILD_NAME === -1) return { headers, indices, groups: new Map() };
+
+    const zone = serverConfig.TIMEZONE || 'local';
+    const groups = groupSubmissions(rows, indices.GUILD_NAME, indices.TIMESTAMP,
+        timestamp => parseTimestamp(timestamp, serverConfig.TIMESTAMP_FORMATS, zone)?.toMillis() ?? null);
+    return { headers, indices, groups };
+};
+
+// Every thread create/edit/delete across all servers shares this budget
+let actionQueue: ActionQueue | undefined;
+export const getActionQueue = (): ActionQueue => {
+    if (!actionQueue) {
+        actionQueue = new ActionQueue({
+            maxActionsPerMinute: readBotSettings().MAX_DISCORD_ACTIONS_PER_MINUTE || 30,
+            maxRetries: 3,
+            baseBackoffMs: 2000,
+            timeoutMs: 15000,
+        });
+    }
+    return actionQueue;
+};
+
+// A server's manager with its current settings, used by the poll cycle and by commands that render posts
+export const createServerManager = (client: Client, serverId: string): ServerManager => {
+    const botSettings = readBotSettings();
+    const serverConfig = readServerConfig(serverId);
+
+    return new ServerManager(
+        client,
+        serverId,
+        serverConfig.MOD_CHANNEL_ID,
+        {
+            DISCORD_TOKEN: client.token || '',
+            ROUTING: getRoutingSettings(serverConfig),
+            SPREADSHEET_ID: serverConfig.SPREADSHEET_ID,
+            SHEET_RANGE: botSettings.SHEET_RANGE,
+            IMAGE_COLUMN_HEADER: botSettings.IMAGE_COLUMN_HEADER,
+            EXCLUDED_COLUMN_HEADER: botSettings.EXCLUDED_COLUMN_HEADER,
+            THREAD_AGE_LIMIT_HOURS: serverConfig.THREAD_AGE_LIMIT_HOURS,
+            POLL_INTERVAL_MS: serverConfig.POLL_INTERVAL_MS || botSettings.POLL_INTERVAL_MS,
+            MAX_ENTRY_AGE_DAYS: serverConfig.MAX_ENTRY_AGE_DAYS,
+            MAX_NEW_THREADS_PER_CYCLE: botSettings.MAX_NEW_THREADS_PER_CYCLE,
+            DATA_SOURCE: serverConfig.DATA_SOURCE,
+            POST_UPDATE_NOTES: serverConfig.POST_UPDATE_NOTES,
+            REQUIRE_APPROVAL: serverConfig.REQUIRE_APPROVAL,
+            TAG_RULES: serverConfig.TAG_RULES,
+            COLUMN_MAP: serverConfig.COLUMN_MAP,
+            TIMESTAMP_FORMATS: serverConfig.TIMESTAMP_FORMATS,
+            TIMEZONE: serverConfig.TIMEZONE,
+            REPOST_STRATEGY: serverConfig.REPOST_STRATEGY,
+            REPOST_PRIORITY_COLUMN: serverConfig.REPOST_PRIORITY_COLUMN,
+            REPOST_PRIORITY_WEIGHTS: serverConfig.REPOST_PRIORITY_WEIGHTS,
+            MAX_REPOSTS_PER_HOUR: serverConfig.MAX_REPOSTS_PER_HOUR,
+            MAX_SUBMISSIONS_PER_DAY: serverConfig.MAX_SUBMISSIONS_PER_DAY,
+            SELF_BUMP_COOLDOWN_HOURS: serverConfig.SELF_BUMP_COOLDOWN_HOURS,
+            NOTIFY_CHANNEL_ID: serverConfig.NOTIFY_CHANNEL_ID,
+            NOTIFY_COOLDOWN_MINUTES: serverConfig.NOTIFY_COOLDOWN_MINUTES,
+            EMOTES: serverConfig.EMOTES,
+            GAME_TEMPLATE: serverConfig.GAME_TEMPLATE,
+            EMBED_TEMPLATE: serverConfig.EMBED_TEMPLATE,
+            WRITE_SHEET_STATUS: serverConfig.WRITE_SHEET_STATUS,
+        },
+        getActionQueue()
+    );
+};
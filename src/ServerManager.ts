@@ -4,20 +4,35 @@ import {
     ThreadChannel,
     MessageCreateOptions,
     GatewayIntentBits,
-    RateLimitError,
-    EmbedBuilder
+    TextChannel
 } from 'discord.js';
-import axios from 'axios';
-import { google } from 'googleapis';
-import fs from 'fs';
-import path from 'path';
 import { DateTime } from 'luxon';
 import stringSimilarity from 'string-similarity';
+import { ThreadLedger, normalizeGuildName, hashRow } from './ThreadLedger';
+import { DataSource, DataSourceSettings, PostStatus, RowStatus, StatusColumn, createDataSource } from './DataSources';
+import { ApprovalStore } from './ApprovalStore';
+import { TagRule, getTagNamesForRow, resolveForumTagIds } from './ForumTags';
+import { ColumnIndices, ColumnKey, ColumnMap, COLUMN_KEYS, COLUMN_LABELS, describeColumnMap, resolveColumnIndices } from './ColumnMap';
+import { RoutingSettings, routeRow } from './Routing';
+import { DEFAULT_TIMESTAMP_FORMATS, parseTimestamp } from './Timestamps';
+import { SubmissionGroup, findSpamSubmitters, groupSubmissions } from './SheetDuplicates';
+import { ActionQueue, ActionTimeoutError, withTimeout } from './Scheduler';
+import { RepostStrategy, RotationCandidate, RotationState, getRepostWeight, isUnderHourlyCap, pickNextRepost, projectNextBumps } from './RepostRotation';
+import { metrics } from './Metrics';
+import { Logger, MOD_NOTICE_ACTION, logger, takeMirroredEntries } from './Logger';
+import { buildApprovalButtons, buildSimilarNameButtons } from './Components';
+import { RecruiterStore } from './RecruiterStore';
+import { ClassNeed, getClassNeeds } from './GuildSearch';
+import { NotificationStore } from './Notifications';
+import { getEmoteMap, resolveEmote } from './Emotes';
+import { GameTemplate, getGameTemplate } from './GameTemplates';
+import { EmbedTemplate, PostField, buildEmbed } from './EmbedTemplates';
+import { LogoError, getLogo } from './LogoImages';
+import { SimilarCaseEntry, SimilarNameCaseStore, needsReport, similarCaseKey } from './SimilarNameCases';
 
 interface Config {
     DISCORD_TOKEN: string;
-    ALLIANCE_CHANNEL_ID: string;
-    HORDE_CHANNEL_ID: string;
+    ROUTING: RoutingSettings;
     SPREADSHEET_ID: string;
     SHEET_RANGE: string;
     IMAGE_COLUMN_HEADER: string;
@@ -26,131 +41,195 @@ interface Config {
     POLL_INTERVAL_MS: number;
     MAX_ENTRY_AGE_DAYS: number;
     MAX_NEW_THREADS_PER_CYCLE: number;
+    DATA_SOURCE?: DataSourceSettings;
+    POST_UPDATE_NOTES?: boolean;
+    REQUIRE_APPROVAL?: boolean;
+    TAG_RULES?: TagRule[];
+    COLUMN_MAP?: ColumnMap;
+    TIMESTAMP_FORMATS?: string[];
+    TIMEZONE?: string;
+    REPOST_STRATEGY?: RepostStrategy;
+    REPOST_PRIORITY_COLUMN?: string;
+    REPOST_PRIORITY_WEIGHTS?: Record<string, number>;
+    MAX_REPOSTS_PER_HOUR?: number;
+    MAX_SUBMISSIONS_PER_DAY?: number;
+    SELF_BUMP_COOLDOWN_HOURS?: number;
+    NOTIFY_CHANNEL_ID?: string;
+    NOTIFY_COOLDOWN_MINUTES?: number;
+    EMOTES?: Record<string, string>;
+    GAME_TEMPLATE?: string;
+    EMBED_TEMPLATE?: EmbedTemplate;
+    WRITE_SHEET_STATUS?: boolean;
 }
 
-const colorize = (text: string, colorCode: string): string => `\x1b[${colorCode}m${text}\x1b[0m`;
-
-const classEmotes: { [key: string]: string } = {
-    '[Warrior]': '<:wa_i:1281118860514164759>',
-    '[Mage]': '<:ma_i:1281118847151247424>',
-    '[Warlock]': '<:wl_i:1281118899232051241>',
-    '[Hunter]': '<:hu_i:1281118845460807690>',
-    '[Rogue]': '<:ro_i:1281118853887295498>',
-    '[Druid]': '<:dr_i:1281118706424090654>',
-    '[Priest]': '<:pr_i:1281118852440133666>',
-    '[Paladin]': '<:pa_i:1281118849793659043>',
-    '[Shaman]': '<:sh_i:1281118855401574410>',
-    '[Monk]': '<:mo_i:1281118848598413414>',
-    '[Evoker]': '<:ev_i:1281118844001452086>',
-    '[Demon Hunter]': '<:dh_i:1281118841027563550>',
-    '[Death Knight]': '<:dk_i:1281118842512478319>'
-};
-
-const roleEmotes: { [key: string]: string } = {
-    'Tank': '<:t_i:1275165468164096192>',
-    'Healer': '<:h_i:1275165466872250388>',
-    'DPSMelee': '<:md_i:1275165464086970409>',
-    'DPSRanged': '<:rd_i:1275165465374752860>'
-};
-
-const COLORS = {
-    RED: '31',
-    GREEN: '32',
-    YELLOW: '33',
-    BLUE: '34',
-    MAGENTA: '35',
-    CYAN: '36',
-    WHITE: '37',
-};
-
-const getRateLimitDelay = (error: RateLimitError): number => {
-    return error.retryAfter || 10000; // Default to 10 seconds if not specified
-};
+// Unreadable timestamps already reported to each server's mod channel, as "guild name|timestamp"
+const reportedTimestampProblems = new Map<string, Set<string>>();
+
+// Submitters already reported to each server's mod channel for spamming the form, as "submitter|count"
+const reportedSpamSubmitters = new Map<string, Set<string>>();
+
+// Logo links already reported to each server's mod channel as unusable, as "guild name|link"
+const reportedLogoProblems = new Map<string, Set<string>>();
+
+// Missing-column problems already reported to each server's mod channel, so they aren't repeated every cycle
+const reportedColumnProblems = new Map<string, string>();
+
+// Sheet hash and time of each server's last full sync, used to skip cycles with nothing to do
+const lastSyncs = new Map<string, { stateHash: string; syncedAt: number }>();
+
+// How often a server is fully synced even if its sheet hasn't changed, to catch threads removed by hand
+const FULL_SYNC_INTERVAL_MS = 10 * 60 * 1000;
 
 export class ServerManager {
-    private sheets: any;
+    private dataSource: DataSource;
     private config: Config;
     private postedWarnings: Set<string> = new Set();
+    private ledger: ThreadLedger;
+    private invalidTimestamps = new Map<string, string>();
+    private unresolvedLogos = new Map<string, LogoError>();
+    private postErrors = new Map<string, string>();
+    private sheetRows?: Promise<any[][]>;
+    private sheetFetchFailed = false;
+    private cycleIncomplete = false; // Work was skipped or failed, so the next cycle must not be skipped
+    private stateHash?: string;
+    private log: Logger;
+    private template: GameTemplate;
 
     constructor(
         private client: Client,
-        private allianceChannelId: string,
-        private hordeChannelId: string,
+        private guildId: string,
         private modChannelId: string,  // Accept modChannelId in the constructor
-        config: Config
+        config: Config,
+        private actions: ActionQueue
     ) {
         this.config = config;
-        this.initializeGoogleSheetsAPI();
+        this.log = logger.child({ guildId });
+        this.template = getGameTemplate(config.GAME_TEMPLATE);
+        this.ledger = ThreadLedger.load(guildId);
+        this.dataSource = createDataSource(config.DATA_SOURCE, config);
     }
 
-    private initializeGoogleSheetsAPI() {
-        const SCOPES = ['https://www.googleapis.com/auth/spreadsheets', 'https://www.googleapis.com/auth/drive'];
-        const CREDENTIALS_PATH = path.join(__dirname, 'credentials.json');
-        const credentials = JSON.parse(fs.readFileSync(CREDENTIALS_PATH, 'utf8'));
+    public updateChannels(modChannelId : string) {
+        this.modChannelId = modChannelId;  // Initialize it here
 
-        const auth = new google.auth.JWT(
-            credentials.client_email,
-            undefined,
-            credentials.private_key,
-            SCOPES
-        );
+    }
+
+    // The sheet is read once per cycle and shared by every step
+    private getSpreadsheetData(): Promise<any[][]> {
+        if (!this.sheetRows) {
+            this.sheetRows = metrics.sheetFetchSeconds.time({ guild: this.guildId }, () => this.dataSource.fetchRows()).catch(error => {
+                metrics.sheetFetchFailures.inc({ guild: this.guildId });
+                this.sheetFetchFailed = true;
+                this.log.error(`Failed to fetch data from ${this.dataSource.description}: ${error}`, { action: 'fetch-sheet' });
+                return [];
+            });
+        }
+        return this.sheetRows;
+    }
 
-        this.sheets = google.sheets({ version: 'v4', auth });
+    // Whether this cycle's sheet read failed, so an empty sheet isn't mistaken for one with nothing to do
+    public hasSheetFetchFailed(): boolean {
+        return this.sheetFetchFailed;
     }
 
-    public updateChannels(allianceChannelId: string, hordeChannelId: string, modChannelId : string) {
-        this.allianceChannelId = allianceChannelId;
-        this.hordeChannelId = hordeChannelId;
-        this.modChannelId = modChannelId;  // Initialize it here
+    // Cheap check before a cycle, reading only the sheet and local files: skip it when the sheet, server settings,
+    // approvals, similar name decisions and recruiter requests are unchanged, nothing is due for a repost and the last full sync is recent
+    public async hasPendingWork(): Promise<boolean> {
+        const rows = await this.getSpreadsheetData();
+        if (rows.length === 0) return false;
 
+        const approvals = this.config.REQUIRE_APPROVAL ? ApprovalStore.load(this.guildId).all() : {};
+        const similarNameCases = SimilarNameCaseStore.load(this.guildId).all();
+        const recruiterRequests = RecruiterStore.load(this.guildId).all();
+        this.stateHash = hashRow([JSON.stringify(rows), JSON.stringify(this.config), JSON.stringify(approvals),
+            JSON.stringify(similarNameCases), JSON.stringify(recruiterRequests)]);
+
+        const lastSync = lastSyncs.get(this.guildId);
+        if (this.ledger.isNew || !lastSync || lastSync.stateHash !== this.stateHash) return true;
+        if (Date.now() - lastSync.syncedAt >= FULL_SYNC_INTERVAL_MS) return true;
+
+        const repostAgeMs = this.config.THREAD_AGE_LIMIT_HOURS * 60 * 60 * 1000;
+        return this.ledger.allEntries().some(([, entry]) => Date.now() - DateTime.fromISO(entry.postedAt).toMillis() >= repostAgeMs);
     }
 
-    private async handleRateLimit(response: any) {
-        if (response.status === 429) { // Rate limit hit
-            const retryAfter = parseInt(response.headers['retry-after'] || '10000', 10); // Default to 10 seconds if not specified
-            console.warn(`Rate limit hit! Waiting for ${retryAfter}ms before retrying...`);
-            await new Promise(resolve => setTimeout(resolve, retryAfter)); // Wait before retrying
+    // Record a completed cycle, so the next one can be skipped if nothing changes; a cycle that skipped or failed some of
+    // its work is not recorded, so the next one picks up what is left
+    public markSynced() {
+        if (this.stateHash && !this.cycleIncomplete) {
+            lastSyncs.set(this.guildId, { stateHash: this.stateHash, syncedAt: Date.now() });
         }
     }
 
-    private async getSpreadsheetData(): Promise<any[][]> {
-        try {
-            const response = await this.sheets.spreadsheets.values.get({
-                spreadsheetId: this.config.SPREADSHEET_ID,
-                range: this.config.SHEET_RANGE,
-            });
-            await this.handleRateLimit(response);
-            return response.data.values || [];
-        } catch (error) {
-            console.error(`Failed to fetch data from Google Sheets: ${error}`);
-            return [];
+    // Discord writes go through the shared action queue, keyed so the same write is never queued twice
+    private deleteThread(thread: ThreadChannel, reason: string) {
+        return this.actions.run(`delete:${thread.id}`, () => thread.delete(reason));
+    }
+
+    private getImageColumnIndex(headers: string[]): number {
+        const logoIndex = this.resolveColumns(headers).indices.GUILD_LOGO;
+        return logoIndex !== -1 ? logoIndex : headers.findIndex(header => header.includes(this.config.IMAGE_COLUMN_HEADER));
+    }
+
+    private resolveColumns(headers: string[]) {
+        return resolveColumnIndices(headers, this.config.COLUMN_MAP, this.template.columnNames);
+    }
+
+    // Resolve the columns the bot needs, reporting any missing ones to the mod channel
+    private async getRequiredColumns(headers: string[] | undefined): Promise<ColumnIndices | null> {
+        if (!headers) return null;
+
+        const { indices, missing } = this.resolveColumns(headers);
+
+        // Columns used by routing rules are required too
+        for (const rule of this.config.ROUTING.RULES) {
+            const key = rule.COLUMN as ColumnKey;
+            if (COLUMN_KEYS.includes(key) && indices[key] === -1 && !missing.includes(key)) {
+                missing.push(key);
+            }
+        }
+
+        if (missing.length === 0) {
+            reportedColumnProblems.delete(this.guildId);
+            return indices;
         }
+
+        this.log.error(`Required columns not found in sheet data: ${missing.map(key => COLUMN_LABELS[key]).join(', ')}`, { action: 'check-columns' });
+        await this.reportMissingColumns(headers, missing);
+        return null;
     }
 
-    private async fetchImage(url: string): Promise<Buffer | null> {
+    private async reportMissingColumns(headers: string[], missing: ColumnKey[]) {
+        // Only report a given set of missing columns once, until it changes or gets fixed
+        const problem = missing.join(',');
+        if (reportedColumnProblems.get(this.guildId) === problem) return;
+        reportedColumnProblems.set(this.guildId, problem);
+
+        const messageContent = `⚠️ **Recruitment posting is paused: required sheet columns are missing**\n\n` +
+            `${describeColumnMap(headers, this.config.COLUMN_MAP, this.template.columnNames)}\n\n` +
+            `**Sheet headers:** ${headers.map(header => `"${header}"`).join(', ').slice(0, 1200)}\n\n` +
+            `Use \`/setupcolumns detect\` or \`/setupcolumns set\` to map the missing columns.`;
+
+        await this.postModNotice('Missing Sheet Columns', messageContent, 'Required sheet columns missing');
+    }
+
+    // Post a notice as a new thread in the mod forum, titled with the current time
+    private async postModNotice(title: string, content: string, reason: string) {
+        const modChannel = await this.client.channels.fetch(this.modChannelId).catch(() => null);
+        if (!modChannel || !(modChannel instanceof ForumChannel)) {
+            this.log.error(`Failed to fetch the mod channel or it's not a forum channel`, { action: MOD_NOTICE_ACTION });
+            return;
+        }
+
         try {
-            // Make a HEAD request to get the content type
-            const headResponse = await axios.head(url);
-            
-            // Check if the content type is an image
-            const contentType = headResponse.headers['content-type'];
-            if (!contentType || !contentType.startsWith('image/')) {
-                console.error(`URL ${url} does not point to an image. Content-Type: ${contentType}`);
-                return null;
-            }
-            
-            // Determine the correct extension if necessary
-            // Assuming content-type has valid information
-            const response = await axios.get(url, { responseType: 'arraybuffer' });
-            return Buffer.from(response.data);
+            await this.actions.run(`notice:${modChannel.id}:${title}`, () => modChannel.threads.create({
+                name: `${title} - ${DateTime.now().toFormat('yyyy-MM-dd HH:mm')}`.slice(0, 100),
+                autoArchiveDuration: 1440,
+                reason,
+                message: { content: content.slice(0, 2000) },
+            }));
         } catch (error) {
-            console.error(`Failed to fetch image from ${url}: ${error}`);
-            return null;
+            this.log.error(`Failed to post "${title}" to mod channel: ${error}`, { action: MOD_NOTICE_ACTION });
         }
-    }  
-
-    private getImageColumnIndex(headers: string[]): number {
-        return headers.findIndex(header => header.includes(this.config.IMAGE_COLUMN_HEADER));
     }
 
     private getThreadAge(thread: ThreadChannel): number {
@@ -162,199 +241,568 @@ export class ServerManager {
         return this.getThreadAge(thread) >= this.config.THREAD_AGE_LIMIT_HOURS;
     }
 
-    private isEntryTooOld(timestamp: string): boolean {
-        const entryDate = DateTime.fromFormat(timestamp, 'MM/dd/yyyy HH:mm:ss');
-        return DateTime.now().diff(entryDate, 'days').days > this.config.MAX_ENTRY_AGE_DAYS;
+    // Entries whose timestamp can't be parsed are 'invalid': never posted or reposted, and their threads are kept
+    private getEntryAgeStatus(timestamp: string | undefined, guildName: string): 'current' | 'too_old' | 'invalid' {
+        const entryDate = parseTimestamp(timestamp || '', this.config.TIMESTAMP_FORMATS, this.config.TIMEZONE || 'local');
+        if (!entryDate) {
+            this.invalidTimestamps.set(guildName, timestamp || '');
+            return 'invalid';
+        }
+
+        return DateTime.now().diff(entryDate, 'days').days > this.config.MAX_ENTRY_AGE_DAYS ? 'too_old' : 'current';
     }
 
-    private findSimilarThreads(threads: ThreadChannel[], similarityThreshold: number = 0.6): Map<string, ThreadChannel[]> {
-        const threadTitles = threads.map(thread => thread.name.trim().toLowerCase());
-        const similarThreadsMap = new Map<string, ThreadChannel[]>();
-    
-        for (let i = 0; i < threadTitles.length; i++) {
-            for (let j = i + 1; j < threadTitles.length; j++) {
-                const similarity = stringSimilarity.compareTwoStrings(threadTitles[i], threadTitles[j]);
-    
-                // Log similarity scores for debugging
-                //console.log(`\nComparing "${threadTitles[i]}" with "${threadTitles[j]}": Similarity = ${similarity}`);
-    
-                if (similarity >= similarityThreshold) {
-                    if (!similarThreadsMap.has(threadTitles[i])) {
-                        similarThreadsMap.set(threadTitles[i], []);
-                    }
-                    similarThreadsMap.get(threadTitles[i])!.push(threads[j]);
+    private isEntryTooOld(timestamp: string | undefined, guildName: string): boolean {
+        return this.getEntryAgeStatus(timestamp, guildName) === 'too_old';
+    }
+
+    public async reportInvalidTimestamps() {
+        // Each broken timestamp is only reported once per row and value
+        const reported = reportedTimestampProblems.get(this.guildId) || new Set<string>();
+        reportedTimestampProblems.set(this.guildId, reported);
+
+        const newProblems = Array.from(this.invalidTimestamps).filter(([guildName, timestamp]) => !reported.has(`${guildName}|${timestamp}`));
+        if (newProblems.length === 0) return;
+
+        newProblems.forEach(([guildName, timestamp]) => reported.add(`${guildName}|${timestamp}`));
+        this.log.warn(`Found ${newProblems.length} rows with unreadable timestamps.`, { action: 'check-timestamps' });
+
+        const formats = (this.config.TIMESTAMP_FORMATS?.length ? this.config.TIMESTAMP_FORMATS : DEFAULT_TIMESTAMP_FORMATS).map(format => `\`${format}\``).join(', ');
+        const rowList = newProblems.map(([guildName, timestamp]) => ` - ${guildName}: ${timestamp ? `"${timestamp}"` : '(empty)'}`).join('\n');
+        const messageContent = `⚠️ **Submissions with unreadable timestamps**\n\n` +
+            `These rows are not posted or reposted until their timestamp can be read:\n${rowList.slice(0, 1400)}\n\n` +
+            `Formats tried: ISO 8601, ${formats} (timezone: ${this.config.TIMEZONE || 'bot host'}). ` +
+            `Use \`/setuptimestamps\` to add your form's format.`;
+
+        await this.postModNotice('Unreadable Timestamps', messageContent, 'Unreadable submission timestamps');
+    }
+
+    // List the rows posted this cycle whose logo couldn't be used, so moderators can ask for a working link
+    public async reportUnresolvedLogos() {
+        // Each link is only reported once per guild
+        const reported = reportedLogoProblems.get(this.guildId) || new Set<string>();
+        reportedLogoProblems.set(this.guildId, reported);
+
+        const newProblems = Array.from(this.unresolvedLogos).filter(([guildName, error]) => !reported.has(`${guildName}|${error.url}`));
+        if (newProblems.length === 0) return;
+
+        newProblems.forEach(([guildName, error]) => reported.add(`${guildName}|${error.url}`));
+        this.log.warn(`Found ${newProblems.length} rows with unusable logos.`, { action: 'check-logos' });
+
+        const rowList = newProblems.map(([guildName, error]) => ` - ${guildName}: ${error.message}`).join('\n');
+        const messageContent = `⚠️ **Logos that couldn't be resolved**\n\n` +
+            `These posts went up without their logo:\n${rowList.slice(0, 1500)}\n\n` +
+            `Logos can be direct image links, Google Drive or Form uploads, Imgur, Gyazo, Dropbox or Discord attachment links. ` +
+            `Posts pick up a fixed logo the next time they are edited or reposted.`;
+
+        await this.postModNotice('Unresolved Logos', messageContent, 'Unresolved guild logos');
+    }
+
+    // The status columns for a guild's newest submission; every state is written, so a stale status never stays in the sheet
+    private getRowStatus(key: string, headers: string[], row: string[], columns: ColumnIndices, stores: {
+        approvals: ApprovalStore | null; similarNameCases: SimilarNameCaseStore; recruiters: RecruiterStore;
+    }, nextBumps: Map<string, number>): Record<StatusColumn, string> {
+        const zone = this.config.TIMEZONE || 'local';
+        const formatTime = (time: DateTime) => time.setZone(zone).toFormat('yyyy-MM-dd HH:mm');
+        const status = (postStatus: PostStatus, lastError = '') => ({
+            'Bot Thread': '', 'Bot Status': postStatus, 'Bot Last Posted': '', 'Bot Next Repost': '', 'Bot Last Error': lastError,
+        });
+
+        const entry = this.ledger.get(key);
+        if (entry) {
+            const postedAt = DateTime.fromISO(entry.postedAt);
+            const nextBump = nextBumps.get(key);
+            const logoError = this.unresolvedLogos.get(row[columns.GUILD_NAME]?.trim());
+            return {
+                'Bot Thread': `https://discord.com/channels/${this.guildId}/${entry.threadId}`,
+                'Bot Status': 'posted',
+                'Bot Last Posted': formatTime(postedAt),
+                'Bot Next Repost': nextBump === undefined ? '' : formatTime(DateTime.fromMillis(nextBump)),
+                'Bot Last Error': this.postErrors.get(key) || logoError?.message ||
+                    (stores.approvals && !stores.approvals.isApproved(key, hashRow(row)) ? 'Changes are waiting for approval; the post shows the approved version' : ''),
+            };
+        }
+
+        const contentHash = hashRow(row);
+        if (stores.similarNameCases.isMergedAway(key, contentHash)) return status('rejected', 'Merged into a guild with a similar name by a moderator');
+        if (stores.recruiters.isHidden(key, contentHash)) return status('expired', 'Taken down by the recruiter with /myguild');
+
+        const ageStatus = this.getEntryAgeStatus(row[columns.TIMESTAMP], row[columns.GUILD_NAME].trim());
+        if (ageStatus === 'invalid') return status('error', `Unreadable timestamp "${row[columns.TIMESTAMP] || ''}"`);
+        if (ageStatus === 'too_old') return status('expired', `Older than ${this.config.MAX_ENTRY_AGE_DAYS} days`);
+
+        // Decisions on earlier content don't count; the changed submission is reviewed again
+        const approval = stores.approvals?.get(key);
+        if (stores.approvals && !stores.approvals.isApproved(key, contentHash)) {
+            const decided = approval?.contentHash === contentHash ? approval : undefined;
+            if (decided?.status === 'rejected') return status('rejected', decided.reason || '');
+            return status('pending approval', decided?.status === 'changes_requested' ? `Changes requested: ${decided.reason || ''}` : '');
+        }
+
+        const postError = this.postErrors.get(key);
+        if (postError) return status('error', postError);
+        if (!routeRow(this.config.ROUTING, headers, row, this.config.COLUMN_MAP, this.template.columnNames)) {
+            return status('error', 'No forum channel matches this submission; check the routing rules');
+        }
+        return status('queued');
+    }
+
+    // When each posted entry is expected to be bumped, projected the same way as /nextbump
+    private projectNextBumps(headers: string[], sheetEntries: Map<string, string[]>): Map<string, number> {
+        const priorityIndex = this.getPriorityColumnIndex(headers);
+        const channels = new Map<string, RotationCandidate[]>();
+        for (const [key, entry] of this.ledger.allEntries()) {
+            const row = sheetEntries.get(key);
+            const candidates = channels.get(entry.channelId) || [];
+            candidates.push({
+                key,
+                lastBumpedAt: DateTime.fromISO(entry.postedAt).toMillis(),
+                weight: priorityIndex === -1 || !row ? 1 : getRepostWeight(row[priorityIndex], this.config.REPOST_PRIORITY_WEIGHTS),
+            });
+            channels.set(entry.channelId, candidates);
+        }
+
+        return projectNextBumps(channels, RotationState.load(this.guildId), {
+            strategy: this.config.REPOST_STRATEGY || 'oldest-first',
+            threadAgeLimitMs: this.config.THREAD_AGE_LIMIT_HOURS * 60 * 60 * 1000,
+            maxRepostsPerHour: this.config.MAX_REPOSTS_PER_HOUR,
+        }, this.config.POLL_INTERVAL_MS);
+    }
+
+    // Write each submission's post status onto its row, in one batch per cycle, for sheets that opted in
+    public async writeSheetStatus() {
+        if (!this.config.WRITE_SHEET_STATUS || !this.dataSource.writeStatuses) return;
+
+        const rows = await this.getSpreadsheetData();
+        if (rows.length === 0) return;
+
+        const headers = rows[0];
+        const columns = await this.getRequiredColumns(headers);
+        if (!columns) return;
+
+        const stores = {
+            approvals: this.config.REQUIRE_APPROVAL ? ApprovalStore.load(this.guildId) : null,
+            similarNameCases: SimilarNameCaseStore.load(this.guildId),
+            recruiters: RecruiterStore.load(this.guildId),
+        };
+
+        const nextBumps = this.projectNextBumps(headers, this.getSheetEntries(rows, columns));
+
+        const statuses: RowStatus[] = [];
+        for (const [key, group] of this.getSubmissionGroups(rows, columns)) {
+            statuses.push({ rowNumber: group.newest.rowNumber, values: this.getRowStatus(key, headers, group.newest.row, columns, stores, nextBumps) });
+
+            for (const submission of group.superseded) {
+                statuses.push({
+                    rowNumber: submission.rowNumber,
+                    values: {
+                        'Bot Thread': '', 'Bot Status': 'expired', 'Bot Last Posted': '', 'Bot Next Repost': '',
+                        'Bot Last Error': `Replaced by the newer submission in row ${group.newest.rowNumber}`,
+                    },
+                });
+            }
+        }
+
+        try {
+            const written = await this.dataSource.writeStatuses(statuses);
+            if (written > 0) {
+                this.log.info(`Wrote ${written} status cells to the sheet.`, { action: 'write-status' });
+            }
+        } catch (error) {
+            this.log.error(`Failed to write post status to the sheet: ${error}`, { action: 'write-status' });
+        }
+    }
+
+    // Flag submitters who sent the form more than MAX_SUBMISSIONS_PER_DAY times in the last 24 hours
+    public async reportSubmissionSpam() {
+        const rows = await this.getSpreadsheetData();
+        if (rows.length === 0) return;
+
+        const columns = await this.getRequiredColumns(rows[0]);
+        if (!columns) return;
+
+        const limit = this.config.MAX_SUBMISSIONS_PER_DAY || 3;
+        const spammers = findSpamSubmitters(this.getSubmissionGroups(rows, columns), columns.DISCORD_CONTACT, limit, Date.now());
+
+        // Each submitter is reported again only if they keep submitting
+        const reported = reportedSpamSubmitters.get(this.guildId) || new Set<string>();
+        reportedSpamSubmitters.set(this.guildId, reported);
+
+        const newSpammers = spammers.filter(spammer => !reported.has(`${spammer.submitter}|${spammer.count}`));
+        if (newSpammers.length === 0) return;
+
+        newSpammers.forEach(spammer => reported.add(`${spammer.submitter}|${spammer.count}`));
+        this.log.warn(`Found ${newSpammers.length} submitters over the limit of ${limit} submissions per day.`, { action: 'check-duplicates' });
+
+        const spammerList = newSpammers.map(spammer => ` - ${spammer.submitter}: ${spammer.count} submissions (${spammer.guildNames.join(', ')})`).join('\n');
+        const messageContent = `⚠️ **Repeated form submissions**\n\n` +
+            `These submitters sent the form more than ${limit} times in the last 24 hours:\n${spammerList.slice(0, 1500)}\n\n` +
+            `Only the newest submission for each guild is posted. Use \`/duplicates\` to see every duplicate submission.`;
+
+        await this.postModNotice('Repeated Submissions', messageContent, 'Repeated form submissions');
+    }
+
+    // Post the warnings and errors collected since the last digest, when the server mirrors them to the mod forum
+    public async postLogDigest() {
+        const entries = takeMirroredEntries(this.guildId);
+        if (entries.length === 0) return;
+
+        const lines = entries.map(entry => `- **${entry.level.toUpperCase()}**${entry.channel ? ` #${entry.channel}` : ''}: ${entry.message}`);
+        const messageContent = `⚠️ **Warnings and errors since the last check**\n\n${lines.join('\n').slice(0, 1900)}`;
+
+        await this.postModNotice('Bot Warnings', messageContent, 'Mirrored bot warnings and errors');
+    }
+
+    // Every guild's submissions in the sheet, with the newest one picked out
+    private getSubmissionGroups(rows: any[][], columns: ColumnIndices): Map<string, SubmissionGroup> {
+        const zone = this.config.TIMEZONE || 'local';
+        return groupSubmissions(rows, columns.GUILD_NAME, columns.TIMESTAMP,
+            timestamp => parseTimestamp(timestamp, this.config.TIMESTAMP_FORMATS, zone)?.toMillis() ?? null);
+    }
+
+    // Map each sheet entry's ledger key to its newest row; older submissions for the same guild are superseded
+    private getSheetEntries(rows: any[][], columns: ColumnIndices): Map<string, string[]> {
+        const sheetEntries = new Map<string, string[]>();
+        for (const [key, group] of this.getSubmissionGroups(rows, columns)) {
+            sheetEntries.set(key, group.newest.row);
+        }
+        return sheetEntries;
+    }
+
+    private recordThread(guildName: string, thread: ThreadChannel, headers: string[], row: string[]) {
+        this.ledger.set(normalizeGuildName(guildName), {
+            guildName,
+            threadId: thread.id,
+            channelId: thread.parentId || '',
+            postedAt: (thread.createdAt || new Date()).toISOString(),
+            contentHash: hashRow(row),
+            needs: getClassNeeds(headers, row),
+        });
+        this.ledger.save();
+    }
+
+    public async rebuildLedgerIfMissing(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'rebuild-ledger' });
+        if (!this.ledger.isNew) return;
+
+        try {
+            log.info(`No thread ledger found, rebuilding it from existing threads...`);
+
+            const rows = await this.getSpreadsheetData();
+            if (rows.length === 0) {
+                log.error('Cannot rebuild the thread ledger without Google Sheets data.');
+                return;
+            }
+
+            const headers = rows[0];
+            const columns = await this.getRequiredColumns(headers);
+            if (!columns) return;
+
+            const guildNameIndex = columns.GUILD_NAME;
+
+            // Thread titles start with the sanitized guild name in angle brackets
+            const entriesByTitleName = new Map<string, string[]>();
+            for (const row of this.getSheetEntries(rows, columns).values()) {
+                const titleName = this.sanitizeTitlePart(row[guildNameIndex]).toLowerCase();
+                if (!entriesByTitleName.has(titleName)) {
+                    entriesByTitleName.set(titleName, row);
+                }
+            }
+
+            let matchedThreads = 0;
+            for (const channel of channels) {
+                const threads = await this.fetchAndFilterThreads(channel, () => true);
+
+                // Oldest first, so a guild keeps its original thread and later copies are treated as duplicates
+                threads.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+
+                for (const thread of threads) {
+                    const titleName = thread.name.trim().match(/^<(.*?)>/)?.[1]?.trim().toLowerCase();
+                    const row = titleName !== undefined ? entriesByTitleName.get(titleName) : undefined;
+                    if (!row) continue;
+
+                    const guildName = row[guildNameIndex].trim();
+                    if (this.ledger.has(normalizeGuildName(guildName))) continue;
+
+                    this.ledger.set(normalizeGuildName(guildName), {
+                        guildName,
+                        threadId: thread.id,
+                        channelId: channel.id,
+                        postedAt: (thread.createdAt || new Date()).toISOString(),
+                        contentHash: hashRow(row),
+                        needs: getClassNeeds(headers, row),
+                    });
+                    matchedThreads++;
+                }
+            }
+
+            this.ledger.save();
+            log.info(`Thread ledger rebuilt with ${matchedThreads} existing threads.`);
+        } catch (error) {
+            log.error(`Failed to rebuild thread ledger: ${error}`);
+            this.cycleIncomplete = true;
+        }
+    }
+
+    // Pairs of tracked threads whose titles are at least the threshold alike, with the ledger key of each
+    private findSimilarThreads(threads: ThreadChannel[], similarityThreshold: number = 0.6): [string, string][] {
+        const tracked = threads.flatMap(thread => {
+            const trackedEntry = this.ledger.findByThreadId(thread.id);
+            return trackedEntry ? [{ key: trackedEntry[0], title: thread.name.trim().toLowerCase() }] : [];
+        });
+        const pairs: [string, string][] = [];
+
+        for (let i = 0; i < tracked.length; i++) {
+            for (let j = i + 1; j < tracked.length; j++) {
+                if (stringSimilarity.compareTwoStrings(tracked[i].title, tracked[j].title) >= similarityThreshold) {
+                    pairs.push([tracked[i].key, tracked[j].key]);
                 }
             }
         }
-        return similarThreadsMap;
+        return pairs;
     }
 
+    // Open a case in the mod forum for each pair of similar names that hasn't been decided, or whose decision ran out
     public async checkAndPostSimilarThreads(channel: ForumChannel) {
-        console.log(`\nChecking for similar threads in ${channel.name}...`);
-    
-        // Fetch active threads from the forum channel
+        const log = this.log.child({ channel: channel.name, action: 'similar-names' });
+        log.info('Checking for similar threads...');
+
         const threads = await channel.threads.fetchActive();
-        const threadList = Array.from(threads.threads.values());
-    
-        // Find similar threads
-        const similarThreadsMap = this.findSimilarThreads(threadList, 0.8);
-    
-        // Fetch the mod channel
-        const modChannel = await this.client.channels.fetch(this.modChannelId);
+        const pairs = this.findSimilarThreads(Array.from(threads.threads.values()), 0.8);
+        if (pairs.length === 0) return;
+
+        const rows = await this.getSpreadsheetData();
+        const columns = await this.getRequiredColumns(rows[0]);
+        if (!columns) return;
+
+        const sheetEntries = this.getSheetEntries(rows, columns);
+        const cases = SimilarNameCaseStore.load(this.guildId);
+
+        for (const [keyA, keyB] of pairs) {
+            const caseKey = similarCaseKey(keyA, keyB);
+            if (!needsReport(cases.get(caseKey))) {
+                log.debug(`Similar names ${caseKey} were already reported or decided.`);
+                continue;
+            }
+
+            const entries = [keyA, keyB].map(key => {
+                const row = sheetEntries.get(key);
+                const submittedAt = row && parseTimestamp(row[columns.TIMESTAMP], this.config.TIMESTAMP_FORMATS, this.config.TIMEZONE || 'local');
+                return { key, guildName: this.ledger.get(key)?.guildName || key, submittedAt: submittedAt?.toISO() || undefined };
+            });
+
+            const caseThread = await this.postSimilarNameCase(caseKey, entries, channel);
+            if (caseThread) {
+                cases.set(caseKey, { entries, status: 'open', caseThreadId: caseThread.id, openedAt: new Date().toISOString() });
+                metrics.threadsFlagged.inc({ guild: this.guildId, channel: channel.name }, entries.length);
+                log.info(`Opened a similar name case for ${entries.map(entry => entry.guildName).join(' and ')}.`);
+            }
+        }
+    }
+
+    private async postSimilarNameCase(caseKey: string, entries: SimilarCaseEntry[], channel: ForumChannel): Promise<ThreadChannel | undefined> {
+        const modChannel = await this.client.channels.fetch(this.modChannelId).catch(() => null);
         if (!modChannel || !(modChannel instanceof ForumChannel)) {
-            console.error(`Failed to fetch the mod channel or it's not a forum channel`);
+            this.log.error(`Failed to fetch the mod channel or it's not a forum channel`, { action: MOD_NOTICE_ACTION });
+            this.cycleIncomplete = true;
             return;
         }
-    
-        // Fetch existing threads in the mod channel
-        const existingModThreads = await modChannel.threads.fetchActive();
-        const existingModThreadsArray = Array.from(existingModThreads.threads.values());
-    
-        // Process each set of similar threads
-        for (const [originalTitle, similarThreads] of similarThreadsMap) {
-            // Collect all guild names from similar threads
-            const guildNames = new Set<string>();
-            similarThreads.forEach(thread => {
-                const guildName = this.extractGuildNameFromThreadName(thread.name).toLowerCase();
-                guildNames.add(guildName);
-            });
-    
-            // Check if any guild name is present in existing threads
-            const shouldPost = !await Promise.all(existingModThreadsArray.map(async thread => {
-                const threadTitle = thread.name.toLowerCase();
-                const messages = await thread.messages.fetch();
-                const threadMessages = messages.map(msg => msg.content.toLowerCase());
-    
-                // Check if any guild name is present in the thread title or content
-                return Array.from(guildNames).some(guildName =>
-                    threadTitle.includes(guildName) || threadMessages.some(content => content.includes(guildName))
-                );
-            })).then(results => results.some(hasGuildName => hasGuildName));
-    
-            if (shouldPost) {
-                // Construct the message content with the similar thread names
-                let messageContent = `⚠️ **Potentially Similar Guild Names Found for: ${originalTitle}**\n\n`;
-                similarThreads.forEach(thread => {
-                    messageContent += ` - ${thread.name} (ID: ${thread.id})\n`;
-                });
-    
-                // Create a new thread title with the original title and a timestamp
-                const threadTitle = `Similar Guild Names - ${originalTitle} - ${DateTime.now().toFormat('yyyy-MM-dd HH:mm')}`;
-    
-                try {
-                    // Create a new thread in the mod channel
-                    const createdThread = await modChannel.threads.create({
-                        name: threadTitle,
-                        autoArchiveDuration: 60, // Set the auto-archive duration as needed
-                        reason: 'Similar guild names detected',
-                        message: { content: messageContent },
-                    });
-    
-                    console.log(`\nPosted similar thread names to mod channel in thread: ${createdThread.name}.`);
-                } catch (error) {
-                    console.error(`\nFailed to create thread in mod channel: ${error}`);
+
+        const threadLinks = entries.map(({ key, guildName }) => {
+            const entry = this.ledger.get(key);
+            return ` - ${guildName}${entry ? `: <#${entry.threadId}>` : ''}`;
+        });
+        const messageContent = `⚠️ **Potentially similar guild names in <#${channel.id}>**\n\n${threadLinks.join('\n')}\n\n` +
+            `**Not a duplicate** stops reporting this pair, **Merge** removes the older ad, and **Ignore** snoozes this case.`;
+        const threadTitle = `Similar Guild Names - ${entries.map(entry => entry.guildName).join(' / ')} - ${DateTime.now().toFormat('yyyy-MM-dd HH:mm')}`;
+
+        try {
+            return await this.actions.run(`notice:${modChannel.id}:similar:${caseKey}`, () => modChannel.threads.create({
+                name: threadTitle.slice(0, 100),
+                autoArchiveDuration: 1440,
+                reason: 'Similar guild names detected',
+                message: { content: messageContent, components: [buildSimilarNameButtons()] },
+            }));
+        } catch (error) {
+            this.log.error(`Failed to post similar name case to mod channel: ${error}`, { action: MOD_NOTICE_ACTION });
+            this.cycleIncomplete = true;
+            return;
+        }
+    }
+
+    // Remove the older ad of every pair a moderator merged; it stays off the forums until its submission changes
+    public async removeMergedEntries(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'similar-names' });
+        const cases = SimilarNameCaseStore.load(this.guildId);
+        const merges = Object.entries(cases.all()).filter(([, similarCase]) => similarCase.status === 'merge' && similarCase.removedKey);
+        if (merges.length === 0) return;
+
+        const rows = await this.getSpreadsheetData();
+        const columns = await this.getRequiredColumns(rows[0]);
+        if (!columns) return;
+
+        const sheetEntries = this.getSheetEntries(rows, columns);
+
+        for (const [caseKey, similarCase] of merges) {
+            const removedKey = similarCase.removedKey!;
+            const entry = this.ledger.get(removedKey);
+
+            try {
+                const channel = entry && channels.find(channel => channel.id === entry.channelId);
+                const thread = channel ? await channel.threads.fetch(entry.threadId).catch(() => null) : null;
+                if (thread) {
+                    await this.deleteThread(thread, 'Merged with a similar guild name');
+                    metrics.threadsDeleted.inc({ guild: this.guildId, channel: channel!.name, reason: 'merged' });
                 }
-            } else {
-                console.log(`\nA thread with similar content already exists in the mod channel.`);
+                this.ledger.delete(removedKey);
+                this.ledger.save();
+
+                const row = sheetEntries.get(removedKey);
+                cases.set(caseKey, { ...similarCase, status: 'merged', removedHash: row ? hashRow(row) : '' });
+                log.info(`Removed the ad for ${entry?.guildName || removedKey} after a merge.`);
+            } catch (error) {
+                if (error instanceof ActionTimeoutError) throw error;
+                log.error(`Failed to remove merged entry ${removedKey}: ${error}`);
+                this.cycleIncomplete = true;
             }
         }
     }
-    
-    private extractGuildNameFromThreadName(name: string): string {
-        // Simplified extraction logic: Return the part of the name that is considered the guild name
-        return name.split(' - ')[0].trim(); // Adjust based on actual thread naming conventions
+
+    // Delete the threads of entries posted in a forum that is no longer routed; postNewEntries posts them again in the
+    // forum they are routed to now. Unrouted forums aren't scanned, so without this their threads would stay forever.
+    public async removeUnroutedThreads(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'remove-unrouted' });
+        const channelIds = channels.map(channel => channel.id);
+        const unrouted = this.ledger.allEntries().filter(([, entry]) => !channelIds.includes(entry.channelId));
+        if (unrouted.length === 0) return;
+
+        log.info(`${unrouted.length} threads are in forums that are no longer routed.`);
+        for (const [key, entry] of unrouted) {
+            try {
+                const thread = await this.client.channels.fetch(entry.threadId).catch(() => null);
+                if (thread instanceof ThreadChannel) {
+                    const channelName = thread.parent?.name || entry.channelId;
+                    await this.deleteThread(thread, 'Forum no longer routed, moving to the forum it is routed to');
+                    metrics.threadsDeleted.inc({ guild: this.guildId, channel: channelName, reason: 'unrouted' });
+                }
+                this.ledger.delete(key);
+                log.info(`Removed the thread for ${entry.guildName} from a forum that is no longer routed.`);
+            } catch (error) {
+                if (error instanceof ActionTimeoutError) throw error;
+                log.error(`Failed to remove the thread for ${entry.guildName}: ${error}`);
+                this.cycleIncomplete = true;
+            }
+        }
+        this.ledger.save();
     }
 
     public async removeUnmatchedThreads(channel: ForumChannel) {
+        const log = this.log.child({ channel: channel.name, action: 'remove-unmatched' });
         try {
-            console.log(colorize(`\n\nStarting to check ${channel.name} for threads without Google Sheet...`, COLORS.YELLOW));
+            log.info('Starting to check for threads without a sheet entry...');
             const threads = await channel.threads.fetchActive();
-            const existingThreadNames = Array.from(threads.threads.values()).map(thread => thread.name.trim().toLowerCase());
     
             const rows = await this.getSpreadsheetData();
             const headers = rows[0];
-            const guildNameIndex = headers.indexOf('Guild Name');
-            const timestampIndex = headers.indexOf('Timestamp');
+            const columns = await this.getRequiredColumns(headers);
+            if (!columns) return;
     
-            if (guildNameIndex === -1 || timestampIndex === -1) {
-                console.error('Required columns not found in Google Sheets data.');
-                return;
-            }
+            const guildNameIndex = columns.GUILD_NAME;
+            const timestampIndex = columns.TIMESTAMP;
     
-            const sheetEntries = new Map<string, string>();
-            for (const row of rows.slice(1)) {
-                const guildName = row[guildNameIndex]?.trim().toLowerCase();
-                const timestamp = row[timestampIndex]?.trim();
-                if (guildName && timestamp && !this.isEntryTooOld(timestamp)) {
-                    sheetEntries.set(guildName, timestamp);
+            const sheetEntries = this.getSheetEntries(rows, columns);
+            const recruiters = RecruiterStore.load(this.guildId);
+    
+            // Forget ledger entries whose thread is gone (deleted by hand or archived), so they get posted again
+            for (const [key, entry] of this.ledger.entriesForChannel(channel.id)) {
+                if (!threads.threads.has(entry.threadId)) {
+                    this.ledger.delete(key);
+                    log.info(`Thread for ${entry.guildName} no longer exists, removed it from the ledger.`);
                 }
             }
     
-            // Adjust logic: Check if any guild name is contained within the thread title
+            // Delete threads the ledger doesn't know about, or whose entry is no longer in the sheet, is outdated,
+            // or was paused or removed by its recruiter
             const threadsToDelete = Array.from(threads.threads.values()).filter(thread => {
-                const threadName = thread.name.trim().toLowerCase();
-                const matchingGuildEntry = Array.from(sheetEntries.keys()).find(guildName => threadName.includes(guildName));
-                
-                // If no matching entry or the entry is too old, mark for deletion
-                const isOld = matchingGuildEntry ? this.isEntryTooOld(sheetEntries.get(matchingGuildEntry) || '') : true;
-                return !matchingGuildEntry || isOld;
+                const trackedEntry = this.ledger.findByThreadId(thread.id);
+                if (!trackedEntry) return true;
+
+                // Empty or unreadable timestamps keep their thread; they are reported by reportInvalidTimestamps
+                const row = sheetEntries.get(trackedEntry[0]);
+                const timestamp = row?.[timestampIndex]?.trim();
+                return !row || this.isEntryTooOld(timestamp, trackedEntry[1].guildName) ||
+                    recruiters.isHidden(trackedEntry[0], hashRow(row));
             });
     
             if (threadsToDelete.length > 0) {
-                console.log(colorize(`[${channel.name}] ${threadsToDelete.length} threads to remove.`, COLORS.YELLOW));
+                log.info(`${threadsToDelete.length} threads to remove.`);
                 for (const thread of threadsToDelete) {
                     try {
-                        await thread.delete('No matching data in Google Sheets or outdated entry');
-                        console.log(`[${channel.name}] Deleted thread: ${thread.name} as it no longer matches any entry in the Google Sheet or is outdated.`);
+                        await this.deleteThread(thread, 'No matching data in Google Sheets, outdated entry or taken down by its recruiter');
+                        metrics.threadsDeleted.inc({ guild: this.guildId, channel: channel.name, reason: 'unmatched' });
+                        const trackedEntry = this.ledger.findByThreadId(thread.id);
+                        if (trackedEntry) {
+                            this.ledger.delete(trackedEntry[0]);
+                        }
+                        log.info(`Deleted thread: ${thread.name} as it no longer matches any entry in the Google Sheet or is outdated.`);
                     } catch (error) {
-                        console.error(`Failed to delete thread ${thread.name}: ${error}`);
+                        log.error(`Failed to delete thread ${thread.name}: ${error}`);
+                        this.cycleIncomplete = true;
                     }
                 }
             } else {
-                console.log(`[${channel.name}] No unmatched or outdated threads to remove.`);
+                log.info(`No unmatched or outdated threads to remove.`);
             }
+
+            this.ledger.save();
         } catch (error) {
-            console.error(`Failed to remove unmatched threads: ${error}`);
+            log.error(`Failed to remove unmatched threads: ${error}`);
+            this.cycleIncomplete = true;
         }
     }    
 
-    private async createGuildRecruitmentThread(channel: ForumChannel, guildName: string, guildScope: string, messageOptions: MessageCreateOptions) {
-        const timeoutDuration = 15000; // Timeout duration in milliseconds (15 seconds)
-    
+    private async getAppliedTags(channel: ForumChannel, headers: string[], row: string[]): Promise<string[]> {
+        const tagRules = this.config.TAG_RULES || [];
+        if (tagRules.length === 0) return [];
+
+        return resolveForumTagIds(channel, getTagNamesForRow(tagRules, headers, row));
+    }
+
+    // Returns undefined if the thread couldn't be created; timeouts are rethrown so callers can stop posting
+    private async createGuildRecruitmentThread(channel: ForumChannel, guildName: string, guildScope: string, messageOptions: MessageCreateOptions, appliedTags: string[] = []) {
         try {
             // Sanitize the title with both guild name and guild scope
             const sanitizedTitle = this.sanitizeTitle(guildName, guildScope);
     
-            const threadCreationPromise = channel.threads.create({
+            return await this.actions.run(`create:${channel.id}:${normalizeGuildName(guildName)}`, () => channel.threads.create({
                 name: sanitizedTitle || 'No Title',
                 autoArchiveDuration: 60,
                 reason: 'Creating thread for recruitment post',
                 message: messageOptions,
-            });
-    
-            // Add timeout to the thread creation promise
-            const timeoutPromise = new Promise<ThreadChannel>((_, reject) =>
-                setTimeout(() => reject(new Error('Thread creation timed out')), timeoutDuration)
-            );
-    
-            return await Promise.race([threadCreationPromise, timeoutPromise]);
-        } catch {
-            // Gracefully exit without logging error
+                appliedTags,
+            }));
+        } catch (error) {
+            if (error instanceof ActionTimeoutError) throw error;
+            this.log.error(`Failed to create thread for ${guildName}: ${error}`, { action: 'create-thread' });
+            this.cycleIncomplete = true;
+            // Kept for the sheet's status columns
+            this.postErrors.set(normalizeGuildName(guildName), error instanceof Error ? error.message : String(error));
             return;
         }
     }    
     
-    private sanitizeTitle(guildName: string, guildScope: string): string {
+    private sanitizeTitlePart(text: string): string {
         // Define a regex that allows alphanumeric characters, spaces, hyphens, and accented characters
         const allowedCharactersRegex = /[^\p{L}\p{N}\s\-]/gu;
     
-        const cleanedGuildName = guildName
-            .replace(allowedCharactersRegex, '') // Allow alphanumeric, spaces, hyphens, and accented characters
-            .trim();
-        
-        const cleanedGuildScope = guildScope
+        return text
             .replace(allowedCharactersRegex, '') // Allow alphanumeric, spaces, hyphens, and accented characters
             .trim();
+    }
+    
+    private sanitizeTitle(guildName: string, guildScope: string): string {
+        const cleanedGuildName = this.sanitizeTitlePart(guildName);
+        const cleanedGuildScope = this.sanitizeTitlePart(guildScope);
         
         // Combine the cleaned name and scope into the desired format
         return `<${cleanedGuildName}> - ${cleanedGuildScope}`;
@@ -363,86 +811,75 @@ export class ServerManager {
     private async generateMessageContent(headers: string[], row: string[]): Promise<MessageCreateOptions> {
         const files: { attachment: Buffer; name: string }[] = [];
         const imageColumnIndex = this.getImageColumnIndex(headers);
+        const { indices } = this.resolveColumns(headers);
+        const emotes = getEmoteMap(this.template, this.config.EMOTES);
+        const isEmojiAvailable = (id: string) => this.client.emojis.cache.has(id) || !!this.client.application?.emojis.cache.has(id);
     
-        // Create the EmbedBuilder instance
-        const embed = new EmbedBuilder()
-            .setColor('#0099ff')
-            .setTitle('Guild Details')
-            .setTimestamp();
-    
-        let emoteRows: string[] = [];
-        let otherFields: { name: string, value: string, inline: boolean }[] = [];
-        let discordLink: string | null = null;
-        let discordContact: string | null = null;
+        let emoteRows: PostField[] = [];
+        let otherFields: PostField[] = [];
+        let discordLink: PostField | null = null;
+        let discordContact: PostField | null = null;
     
-        for (let j = 1; j < row.length; j++) {
-            const key = headers[j].trim();
+        for (let j = 0; j < row.length; j++) {
+            const key = (headers[j] || '').trim();
             let value = row[j]?.trim();
     
-            // Skip excluded columns
-            if (key.toLowerCase().includes('guild logo') || key.includes(this.config.EXCLUDED_COLUMN_HEADER)) {
+            // Skip the timestamp, wherever the column map or data source puts it, and excluded columns
+            if (j === indices.TIMESTAMP || j === imageColumnIndex || key.includes(this.config.EXCLUDED_COLUMN_HEADER)) {
                 continue;
             }
     
             if (value && key.startsWith('[') && key.endsWith(']')) {
                 // Process emote rows
-                const classEmote = classEmotes[key] || key;
+                const classEmote = resolveEmote(key, emotes, this.template, isEmojiAvailable);
                 const roles = value.split(',').map(role => role.trim());
-                const roleEmotesString = roles.map(role => roleEmotes[role] || role).join(' ');
+                const roleEmotesString = roles.map(role => resolveEmote(role, emotes, this.template, isEmojiAvailable)).join(' ');
                 const classRoleLine = `${classEmote} ${roleEmotesString}`;
     
-                emoteRows.push(classRoleLine);
-            } else {
+                if (classRoleLine.length <= 1024) {
+                    emoteRows.push({ column: key, name: '\u200B', value: classRoleLine });
+                } else {
+                    this.log.warn('Emote content exceeded the 1024 character limit and was not added to the embed.', { action: 'render-post' });
+                }
+            } else if (value) {
                 // Process other fields
                 if (value.length > 1024) {
                     value = value.slice(0, 1024) + '...'; // Truncate long values
                 }
                 if (key.length <= 256 && value.length <= 1024) {
-                    if (key.toLowerCase().includes('discord link')) {
-                        discordLink = value;
-                    } else if (key.toLowerCase().includes('discord contact')) {
-                        discordContact = value;
-                    } else {
-                        otherFields.push({ name: key, value: value, inline: false });
+                    if (j === indices.DISCORD_LINK) {
+                        discordLink = { column: key, name: 'Discord Link', value };
+                    } else if (j === indices.DISCORD_CONTACT) {
+                        discordContact = { column: key, name: 'Discord Contact', value };
+                    } else if (key) {
+                        otherFields.push({ column: key, name: key, value });
                     }
                 }
             }
         }
     
-        // Add non-emote fields to the embed first if they have valid content
-        otherFields.forEach(field => {
-            if (field.name && field.value) {
-                embed.addFields(field);
-            }
-        });
-    
-        // Add each row of emotes as a separate field
-        emoteRows.forEach(row => {
-            if (row.length > 0 && row.length <= 1024) {
-                embed.addFields({ name: '\u200B', value: row, inline: false });
-            } else {
-                console.warn('Emote content exceeded the 1024 character limit or is empty and was not added to the embed.');
-            }
-        });
-    
-        // Add Discord Link and Discord Contact fields last, if they exist
-        if (discordLink) {
-            embed.addFields({ name: 'Discord Link', value: discordLink, inline: false });
-        }
-        if (discordContact) {
-            embed.addFields({ name: 'Discord Contact', value: discordContact, inline: false });
-        }
+        // By default the sheet's fields come first, then the class rows, then the Discord link and contact
+        const fields = [...otherFields, ...emoteRows, ...(discordLink ? [discordLink] : []), ...(discordContact ? [discordContact] : [])];
+        const embed = buildEmbed(this.config.EMBED_TEMPLATE, headers, row, indices, fields);
     
-        // Handle image attachment if an image is available
-        if (imageColumnIndex !== -1 && row[imageColumnIndex]?.match(/\.(png|jpg|jpeg)$/)) {
-            const imageUrl = row[imageColumnIndex];
+        // Attach the logo, processed and cached by getLogo
+        const imageUrl = imageColumnIndex !== -1 ? row[imageColumnIndex]?.trim() : undefined;
+        if (imageUrl && /^https?:\/\//i.test(imageUrl)) {
             try {
-                const imageData = await this.fetchImage(imageUrl);
-                if (imageData) {
-                    files.push({ attachment: imageData, name: path.basename(imageUrl) });
+                const name = 'logo.png';
+                files.push({ attachment: await getLogo(imageUrl), name });
+
+                const position = this.config.EMBED_TEMPLATE?.LOGO_POSITION || 'attachment';
+                if (position === 'thumbnail') {
+                    embed.setThumbnail(`attachment://${name}`);
+                } else if (position === 'image') {
+                    embed.setImage(`attachment://${name}`);
                 }
             } catch (error) {
-                console.error(`Failed to fetch image from ${imageUrl}:`, error);
+                this.log.warn(`${error instanceof Error ? error.message : error}`, { action: 'render-post' });
+                if (error instanceof LogoError) {
+                    this.unresolvedLogos.set(row[indices.GUILD_NAME]?.trim() || imageUrl, error);
+                }
             }
         }
     
@@ -453,31 +890,293 @@ export class ServerManager {
         };
     }
     
-    private async handleThreadReposting(channel: ForumChannel, thread: ThreadChannel, row: string[], headers: string[]) {
+    // Whether the entry has a new thread; errors other than timeouts are logged and kept for the sheet's status columns
+    private async handleThreadReposting(channel: ForumChannel, thread: ThreadChannel, row: string[], headers: string[]): Promise<boolean> {
+        const log = this.log.child({ channel: channel.name, action: 'repost' });
         try {
+            // Retrieve guild name and scope from the row data; 'Guild Scope' was formerly 'Guild Type'
+            const { indices } = this.resolveColumns(headers);
+            const guildName = row[indices.GUILD_NAME]?.trim();
+            const guildScope = indices.GUILD_TYPE !== -1 ? row[indices.GUILD_TYPE]?.trim() : 'Unknown';
+
+            // In approval mode a repost carries the row's current content, so it waits until that content is approved
+            const approvals = this.config.REQUIRE_APPROVAL ? ApprovalStore.load(this.guildId) : null;
+            if (approvals && guildName && !approvals.isApproved(normalizeGuildName(guildName), hashRow(row))) {
+                await this.requestApproval(approvals, guildName, channel, headers, row);
+                log.info(`Not reposting ${guildName} until its changed submission is approved.`);
+                return false;
+            }
+
             // Delete the old thread
-            await thread.delete('Reposting new thread');
-            console.log(`[${channel.name}] Deleted old thread for reposting: ${thread.name}`);
+            await this.deleteThread(thread, 'Reposting new thread');
+            log.info(`Deleted old thread for reposting: ${thread.name}`);
         
             // Generate new message content
             const messageOptions = await this.generateMessageContent(headers, row);
     
-            // Get the index of the 'Guild Scope' column (formerly 'Guild Type')
-            const guildScopeIndex = headers.indexOf('Guild Type'); // Update to 'Guild Type' if needed
-    
-            // Retrieve guild name and scope from the row data
-            const guildName = row[headers.indexOf('Guild Name')]?.trim();
-            const guildScope = guildScopeIndex !== -1 ? row[guildScopeIndex]?.trim() : 'Unknown';
-    
             // Create the new thread with the correct arguments
             if (guildName) {
-                await this.createGuildRecruitmentThread(channel, guildName, guildScope, messageOptions);
-                console.log(colorize(`[${channel.name}] Reposted thread: ${guildName}`, COLORS.GREEN));
+                const appliedTags = await this.getAppliedTags(channel, headers, row);
+                const newThread = await this.createGuildRecruitmentThread(channel, guildName, guildScope, messageOptions, appliedTags);
+                if (!newThread) {
+                    // The old thread is gone, so let the next cycle post this entry as new
+                    this.ledger.delete(normalizeGuildName(guildName));
+                    this.ledger.save();
+                    return false;
+                }
+                this.recordThread(guildName, newThread, headers, row);
+                metrics.threadsReposted.inc({ guild: this.guildId, channel: channel.name });
+                log.info(`Reposted thread: ${guildName}`);
+                return true;
+            }
+            log.error('Guild Name is missing in the row data.');
+            return false;
+        } catch (error) {
+            if (error instanceof ActionTimeoutError) throw error;
+            log.error(`Failed to handle thread reposting: ${error}`);
+            this.cycleIncomplete = true;
+            this.recordPostError(headers, row, error);
+            return false;
+        }
+    }
+
+    // Kept for the sheet's status columns
+    private recordPostError(headers: string[], row: string[], error: unknown) {
+        const guildName = row[this.resolveColumns(headers).indices.GUILD_NAME]?.trim();
+        if (guildName) {
+            this.postErrors.set(normalizeGuildName(guildName), error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    // Forum a row belongs in according to the server's routing rules
+    private getTargetChannel(headers: string[], row: string[], channels: ForumChannel[]): ForumChannel | null {
+        const channelId = routeRow(this.config.ROUTING, headers, row, this.config.COLUMN_MAP, this.template.columnNames);
+        return channels.find(channel => channel.id === channelId) || null;
+    }
+
+    private async postUpdateNote(guildName: string, thread: ThreadChannel, moved: boolean) {
+        const change = moved ? `The routing changed, so the post was moved to <#${thread.parentId}>` : 'The post was edited in place';
+        await this.postModNotice(
+            `Updated - ${guildName}`,
+            `📝 **Recruitment post updated for ${guildName}**\n\n${change}: ${thread.url}`,
+            'Recruitment post updated'
+        );
+    }
+
+    // Tell players subscribed with /notify that a guild needs their class and role, in the server's alert
+    // channel if it has one, otherwise by DM; each player gets at most one alert per cooldown
+    private async notifySubscribers(guildName: string, thread: ThreadChannel, faction: string | undefined, needs: ClassNeed[]) {
+        if (needs.length === 0) return;
+
+        const log = this.log.child({ action: 'notify' });
+        const notifications = NotificationStore.load(this.guildId);
+        const cooldownMs = (this.config.NOTIFY_COOLDOWN_MINUTES || 60) * 60 * 1000;
+        const subscribers = notifications.findSubscribers(faction, needs, cooldownMs);
+        if (subscribers.size === 0) return;
+
+        const describeNeeds = (matched: ClassNeed[]) => matched.map(need => `${need.className} ${need.role}`).join(', ');
+        const notified: string[] = [];
+
+        if (this.config.NOTIFY_CHANNEL_ID) {
+            const channel = await this.client.channels.fetch(this.config.NOTIFY_CHANNEL_ID).catch(() => null);
+            if (!channel || !(channel instanceof TextChannel)) {
+                log.error(`Failed to fetch the notification channel or it's not a text channel`);
+                return;
+            }
+
+            // Split the pings over as many messages as needed, so every subscriber who is recorded was actually pinged
+            const header = `📣 **${guildName}** is recruiting: ${thread.url}`;
+            const messages: { content: string; userIds: string[] }[] = [];
+            for (const [userId, matched] of subscribers) {
+                const line = `<@${userId}>: ${describeNeeds(matched)}`.slice(0, 2000 - header.length - 1);
+                const last = messages[messages.length - 1];
+                if (last && last.content.length + line.length + 1 <= 2000) {
+                    last.content += `\n${line}`;
+                    last.userIds.push(userId);
+                } else {
+                    messages.push({ content: `${header}\n${line}`, userIds: [userId] });
+                }
+            }
+
+            for (const [index, message] of messages.entries()) {
+                try {
+                    await this.actions.run(`notify:${channel.id}:${thread.id}:${index}`, () => channel.send({
+                        content: message.content,
+                        allowedMentions: { users: message.userIds },
+                    }));
+                    notified.push(...message.userIds);
+                } catch (error) {
+                    log.error(`Failed to post alerts for ${guildName}: ${error}`);
+                }
+            }
+        } else {
+            for (const [userId, matched] of subscribers) {
+                try {
+                    await this.actions.run(`notify:${userId}:${thread.id}`, () => this.client.users.send(userId,
+                        `📣 **${guildName}** is recruiting ${describeNeeds(matched)}: ${thread.url}\nUse \`/notify clear\` to stop these alerts.`));
+                    notified.push(userId);
+                } catch (error) {
+                    // Usually the player doesn't accept DMs from server members
+                    log.debug(`Failed to send an alert to ${userId}: ${error}`);
+                }
+            }
+        }
+
+        notifications.recordNotified(notified);
+        log.info(`Alerted ${notified.length} subscribers about ${guildName}.`);
+    }
+
+    private async postApprovalPreview(guildName: string, targetChannel: ForumChannel, headers: string[], row: string[]): Promise<ThreadChannel | undefined> {
+        const modChannel = await this.client.channels.fetch(this.modChannelId).catch(() => null);
+        if (!modChannel || !(modChannel instanceof ForumChannel)) {
+            this.log.error(`Failed to fetch the mod channel or it's not a forum channel`, { action: MOD_NOTICE_ACTION });
+            this.cycleIncomplete = true;
+            return;
+        }
+
+        const messageOptions = await this.generateMessageContent(headers, row);
+        const threadTitle = `Approval - ${guildName} - ${DateTime.now().toFormat('yyyy-MM-dd HH:mm')}`;
+
+        try {
+            return await this.actions.run(`notice:${modChannel.id}:approval:${normalizeGuildName(guildName)}`, () => modChannel.threads.create({
+                name: threadTitle.slice(0, 100),
+                autoArchiveDuration: 1440,
+                reason: 'New recruitment post awaiting approval',
+                message: {
+                    ...messageOptions,
+                    content: `🆕 **New recruitment post awaiting approval: ${guildName}**\nOnce approved it will be posted in <#${targetChannel.id}>.`,
+                    components: [buildApprovalButtons()],
+                },
+            }));
+        } catch (error) {
+            this.log.error(`Failed to post approval preview to mod channel: ${error}`, { action: MOD_NOTICE_ACTION });
+            this.cycleIncomplete = true;
+            return;
+        }
+    }
+
+    // Send a row's current content to the mod forum for review, unless that content was already sent. Returns whether a
+    // new preview was posted; until the content is approved, callers leave any live post as it is.
+    private async requestApproval(approvals: ApprovalStore, guildName: string, targetChannel: ForumChannel, headers: string[], row: string[]): Promise<boolean> {
+        const key = normalizeGuildName(guildName);
+        const contentHash = hashRow(row);
+        if (approvals.get(key)?.contentHash === contentHash) return false;
+
+        const previewThread = await this.postApprovalPreview(guildName, targetChannel, headers, row);
+        if (!previewThread) return false;
+
+        approvals.set(key, { guildName, status: 'pending', contentHash, previewThreadId: previewThread.id });
+        this.log.info(`Posted ${guildName} to the mod channel for approval.`, { action: 'approval' });
+        return true;
+    }
+
+    public async updateChangedThreads(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'update-threads' });
+        let updatedCount = 0;
+
+        try {
+            log.info('Starting to check for edited entries...');
+
+            const rows = await this.getSpreadsheetData();
+            const headers = rows[0];
+            const columns = await this.getRequiredColumns(headers);
+            if (!columns) return;
+
+            const guildNameIndex = columns.GUILD_NAME;
+            const guildScopeIndex = columns.GUILD_TYPE;
+            const approvals = this.config.REQUIRE_APPROVAL ? ApprovalStore.load(this.guildId) : null;
+
+            for (const [key, row] of this.getSheetEntries(rows, columns)) {
+                const entry = this.ledger.get(key);
+                const contentHash = hashRow(row);
+                if (!entry || entry.contentHash === contentHash) continue;
+
+                const guildName = row[guildNameIndex].trim();
+                const guildScope = row[guildScopeIndex]?.trim() || '';
+                const sourceChannel = channels.find(channel => channel.id === entry.channelId);
+                const targetChannel = this.getTargetChannel(headers, row, channels);
+                if (!sourceChannel || !targetChannel) continue;
+
+                // In approval mode an edit goes live only once approved; the post keeps its approved content until then
+                if (approvals && !approvals.isApproved(key, contentHash)) {
+                    await this.requestApproval(approvals, guildName, targetChannel, headers, row);
+                    continue;
+                }
+
+                try {
+                    const thread = await sourceChannel.threads.fetch(entry.threadId);
+                    if (!thread) continue;
+
+                    const messageOptions = await this.generateMessageContent(headers, row);
+                    let updatedThread: ThreadChannel = thread;
+
+                    if (targetChannel.id !== sourceChannel.id) {
+                        // Forum posts can't be moved between channels, so recreate it in the forum it's now routed to
+                        const appliedTags = await this.getAppliedTags(targetChannel, headers, row);
+                        const newThread = await this.createGuildRecruitmentThread(targetChannel, guildName, guildScope, messageOptions, appliedTags);
+                        if (!newThread) {
+                            log.error(`Failed to move thread for ${guildName}, will retry next cycle.`, { channel: targetChannel.name });
+                            this.cycleIncomplete = true;
+                            continue;
+                        }
+
+                        await this.deleteThread(thread, 'Routing changed, moved to another forum');
+                        this.recordThread(guildName, newThread, headers, row);
+                        updatedThread = newThread;
+                        log.info(`Moved thread from ${sourceChannel.name}: ${guildName}`, { channel: targetChannel.name });
+                    } else {
+                        // Replace the starter message's embed and attachments with the new content
+                        const starterMessage = await thread.fetchStarterMessage();
+                        if (starterMessage) {
+                            await this.actions.run(`edit:${starterMessage.id}`, () => starterMessage.edit({
+                                content: messageOptions.content,
+                                embeds: messageOptions.embeds,
+                                files: messageOptions.files,
+                                attachments: [],
+                            }));
+                        }
+
+                        const title = this.sanitizeTitle(guildName, guildScope) || 'No Title';
+                        if (thread.name !== title) {
+                            await this.actions.run(`rename:${thread.id}`, () => thread.setName(title, 'Guild details updated'));
+                        }
+
+                        const appliedTags = await this.getAppliedTags(sourceChannel, headers, row);
+                        if (this.config.TAG_RULES?.length && appliedTags.join() !== thread.appliedTags.join()) {
+                            await this.actions.run(`tags:${thread.id}`, () => thread.setAppliedTags(appliedTags, 'Guild details updated'));
+                        }
+
+                        this.ledger.set(key, { ...entry, guildName, contentHash, needs: getClassNeeds(headers, row) });
+                        this.ledger.save();
+                        log.info(`Updated thread in place: ${guildName}`, { channel: sourceChannel.name });
+                    }
+
+                    updatedCount++;
+
+                    if (this.config.POST_UPDATE_NOTES) {
+                        await this.postUpdateNote(guildName, updatedThread, updatedThread !== thread);
+                    }
+
+                    // Alert subscribers to needs the edit added; entries posted before needs were recorded are skipped
+                    if (entry.needs) {
+                        const addedNeeds = getClassNeeds(headers, row).filter(need =>
+                            !entry.needs!.some(old => old.className === need.className && old.role === need.role));
+                        await this.notifySubscribers(guildName, updatedThread, row[columns.FACTION], addedNeeds);
+                    }
+                } catch (error) {
+                    log.error(`Failed to update thread for ${guildName}: ${error}`);
+                    this.cycleIncomplete = true;
+                }
+            }
+
+            if (updatedCount === 0) {
+                log.info('No edited entries to update.');
             } else {
-                console.error('Guild Name is missing in the row data.');
+                log.info(`Total threads updated: ${updatedCount}`);
             }
         } catch (error) {
-            console.error(`Failed to handle thread reposting: ${error}`);
+            log.error(`Failed to update edited entries: ${error}`);
+            this.cycleIncomplete = true;
         }
     }
 
@@ -487,275 +1186,316 @@ export class ServerManager {
     }
 
     public async removeDuplicateThreads(channel: ForumChannel) {
+        const log = this.log.child({ channel: channel.name, action: 'remove-duplicates' });
         try {
-            console.log(colorize(`\n\nStarting to check ${channel.name} for duplicate threads...`, COLORS.YELLOW));
+            log.info('Starting to check for duplicate threads...');
 
             const threads = await channel.threads.fetchActive();
-            const threadsByTitle = new Map<string, ThreadChannel[]>();
 
-            // Group threads by title
+            // Titles of the threads the ledger tracks, mapped to the tracked thread's ID
+            const trackedThreadIdsByTitle = new Map<string, string>();
             for (const thread of threads.threads.values()) {
-                const title = thread.name.trim().toLowerCase();
-                if (!threadsByTitle.has(title)) {
-                    threadsByTitle.set(title, []);
+                if (this.ledger.findByThreadId(thread.id)) {
+                    trackedThreadIdsByTitle.set(thread.name.trim().toLowerCase(), thread.id);
                 }
-                threadsByTitle.get(title)!.push(thread);
             }
 
-            // Identify and delete duplicates, keeping only one thread per title
+            // Delete threads that copy a tracked thread's title, keeping only the tracked one
             let duplicatesRemoved = 0;
-            for (const [title, threadList] of threadsByTitle) {
-                if (threadList.length > 1) {
-                    // Keep the first thread, delete the rest
-                    for (const thread of threadList.slice(1)) {
-                        try {
-                            await thread.delete('Duplicate thread');
-                            console.log(colorize(`[${channel.name}] Deleted duplicate thread: ${thread.name}`, COLORS.GREEN));
-                            duplicatesRemoved++;
-                        } catch (error) {
-                            console.error(`Failed to delete duplicate thread ${thread.name}: ${error}`);
-                        }
-                    }
+            for (const thread of threads.threads.values()) {
+                const trackedThreadId = trackedThreadIdsByTitle.get(thread.name.trim().toLowerCase());
+                if (!trackedThreadId || trackedThreadId === thread.id) continue;
+
+                try {
+                    await this.deleteThread(thread, 'Duplicate thread');
+                    metrics.threadsDeleted.inc({ guild: this.guildId, channel: channel.name, reason: 'duplicate' });
+                    log.info(`Deleted duplicate thread: ${thread.name}`);
+                    duplicatesRemoved++;
+                } catch (error) {
+                    log.error(`Failed to delete duplicate thread ${thread.name}: ${error}`);
+                    this.cycleIncomplete = true;
                 }
             }
 
             if (duplicatesRemoved === 0) {
-                console.log(`[${channel.name}] No duplicate threads to remove.`);
+                log.info(`No duplicate threads to remove.`);
             } else {
-                console.log(`[${channel.name}] Total duplicate threads removed: ${duplicatesRemoved}`);
+                log.info(`Total duplicate threads removed: ${duplicatesRemoved}`);
             }
         } catch (error) {
-            console.error(`Failed to remove duplicate threads: ${error}`);
+            log.error(`Failed to remove duplicate threads: ${error}`);
+            this.cycleIncomplete = true;
         }
     }
 
-    public async repostOldestThread(allianceChannel: ForumChannel, hordeChannel: ForumChannel) {
-        async function handleReposting(channel: ForumChannel, config: Config, manager: ServerManager) {
-            let repostedCount = 0;
-            let hasTimeoutOccurred = false;
-    
-            const timeoutDuration = 10000; // Timeout duration in milliseconds (10 seconds)
-    
-            console.log(colorize(`\n\nStarting to check ${channel.name} for threads that need reposting...`, COLORS.YELLOW));
-    
+    // Bump at most one thread per channel per cycle, chosen by the server's rotation strategy
+    public async repostThreads(channels: ForumChannel[]) {
+        const strategy = this.config.REPOST_STRATEGY || 'oldest-first';
+        const rotation = RotationState.load(this.guildId);
+
+        for (const channel of channels) {
+            const log = this.log.child({ channel: channel.name, action: 'repost' });
+
+            log.info(`Starting to check for threads that need reposting (${strategy})...`);
+
+            if (!isUnderHourlyCap(rotation.recentRepostTimes(), Date.now(), this.config.MAX_REPOSTS_PER_HOUR)) {
+                log.info(`Reached the limit of ${this.config.MAX_REPOSTS_PER_HOUR} reposts per hour, waiting before bumping more.`);
+                break;
+            }
+
             try {
                 // Fetch and filter threads that need reposting
-                const threadsPromise = manager.fetchAndFilterThreads(channel, thread => manager.needsRepost(thread));
-                const timeoutPromise = new Promise<ThreadChannel[]>((_, reject) =>
-                    setTimeout(() => reject(new Error('Fetching threads timed out')), timeoutDuration)
+                const threads = await withTimeout(
+                    this.fetchAndFilterThreads(channel, thread => this.needsRepost(thread)),
+                    10000,
+                    'Fetching threads timed out'
                 );
-    
-                // Race the promises and get the threads
-                let threads = await Promise.race([threadsPromise, timeoutPromise]);
-    
-                console.log(`[${channel.name}] Found ${threads.length} threads over the age limit.`);
-    
-                // Sort threads by their creation date (oldest first), accounting for null/undefined values
-                threads = threads.sort((a, b) => {
-                    const dateA = a.createdAt ? a.createdAt.getTime() : 0;
-                    const dateB = b.createdAt ? b.createdAt.getTime() : 0;
-                    return dateA - dateB;
-                });
-    
+
+                log.info(`Found ${threads.length} threads over the age limit.`);
+
                 // Get spreadsheet data
-                const rows = await manager.getSpreadsheetData();
+                const rows = await this.getSpreadsheetData();
                 const headers = rows[0];
-                const guildNameIndex = headers.indexOf('Guild Name');
-    
-                if (guildNameIndex === -1) {
-                    console.error('Required columns not found in Google Sheets data.');
-                    return;
-                }
-    
-                for (const thread of threads) {
-                    if (hasTimeoutOccurred) break; // Exit loop if timeout has occurred
-    
-                    const threadNameLower = thread.name.trim().toLowerCase();
-    
-                    // Find the row where the guild name is contained within the thread name (case-insensitive)
-                    const row = rows.slice(1).find(r => {
-                        const guildName = r[guildNameIndex]?.trim().toLowerCase();
-                        return guildName && threadNameLower.includes(guildName);
-                    });
-    
-                    if (!row) {
-                        console.log(`[DEBUG] No matching row found for thread ${thread.name}. Skipping.`);
-                        continue;
-                    }
-    
-                    if (manager.isEntryTooOld(row[headers.indexOf('Timestamp')])) {
-                        console.log(`[DEBUG] Entry for thread ${thread.name} is too old. Skipping.`);
-                        continue;
+                const columns = await this.getRequiredColumns(headers);
+                if (!columns) return;
+
+                const guildNameIndex = columns.GUILD_NAME;
+                const sheetEntries = this.getSheetEntries(rows, columns);
+                const priorityIndex = this.getPriorityColumnIndex(headers);
+
+                // Threads whose sheet entry is still current, with the ledger key and row they belong to
+                const candidates = threads.flatMap(thread => {
+                    const trackedEntry = this.ledger.findByThreadId(thread.id);
+                    const row = trackedEntry ? sheetEntries.get(trackedEntry[0]) : undefined;
+
+                    if (!trackedEntry || !row) {
+                        log.debug(`No matching row found for thread ${thread.name}. Skipping.`);
+                        return [];
                     }
-    
-                    try {
-                        // Try to repost the thread
-                        const repostPromise = manager.handleThreadReposting(channel, thread, row, headers);
-                        const repostTimeoutPromise = new Promise<void>((_, reject) =>
-                            setTimeout(() => reject(new Error('Reposting thread timed out')), timeoutDuration)
-                        );
-    
-                        // Race the reposting promise with a timeout
-                        await Promise.race([repostPromise, repostTimeoutPromise]);
-                        repostedCount++;
-                        break; // Repost only the oldest thread
-    
-                    } catch (error) {
-                        if (error instanceof Error) {
-                            if (error.message.includes('Reposting thread timed out')) {
-                                console.error('Reposting thread timed out due to rate limit. Stopping further reposts.');
-                                hasTimeoutOccurred = true; // Flag timeout occurrence
-                                break; // Exit loop if timeout occurs
-                            } else if (error instanceof RateLimitError) {
-                                const delay = getRateLimitDelay(error);
-                                console.warn(`Rate limit error while reposting in ${channel.name}: ${error.message}`);
-                                await new Promise(resolve => setTimeout(resolve, delay));
-                            } else {
-                                console.error(`Failed to repost thread: ${error.message}`);
-                                continue; // Continue to the next thread if error persists
-                            }
-                        } else {
-                            console.error(`An unknown error occurred: ${String(error)}`);
-                        }
+
+                    if (this.getEntryAgeStatus(row[columns.TIMESTAMP], row[guildNameIndex].trim()) !== 'current') {
+                        log.debug(`Entry for thread ${thread.name} is too old or has an unreadable timestamp. Skipping.`);
+                        return [];
                     }
+
+                    return [{
+                        key: trackedEntry[0],
+                        lastBumpedAt: thread.createdAt?.getTime() || 0,
+                        weight: priorityIndex === -1 ? 1 : getRepostWeight(row[priorityIndex], this.config.REPOST_PRIORITY_WEIGHTS),
+                        thread,
+                        row,
+                    }];
+                });
+
+                const next = pickNextRepost(strategy, candidates, rotation.getCursor(channel.id), Date.now());
+                if (!next) {
+                    log.info('No threads to repost.');
+                    continue;
+                }
+
+                try {
+                    // Rate limits are retried by the action queue; a timeout means Discord is backed up
+                    await this.handleThreadReposting(channel, next.thread, next.row, headers);
+                    rotation.recordRepost(channel.id, next.key);
+                    rotation.save();
+                } catch (error) {
+                    log.error(`Reposting thread timed out: ${error}. Stopping further reposts.`);
+                    this.cycleIncomplete = true;
+                    break;
                 }
-    
-                console.log(`[${channel.name}] Total reposted threads: ${repostedCount}`);
             } catch (error) {
-                console.error(`Failed to handle reposting: ${error}`);
+                log.error(`Failed to handle reposting: ${error}`);
+                this.cycleIncomplete = true;
             }
         }
-    
-        // Reposting for both channels
-        await handleReposting(allianceChannel, this.config, this);
-        await handleReposting(hordeChannel, this.config, this);
     }
-    
 
-    public async postNewEntries(allianceChannel: ForumChannel, hordeChannel: ForumChannel) {
+    // Bump the threads recruiters asked for with /myguild bump, outside the rotation
+    public async bumpRequestedThreads(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'self-bump' });
+        const recruiters = RecruiterStore.load(this.guildId);
+        const requests = Object.entries(recruiters.all()).filter(([, entry]) => entry.bumpRequestedAt);
+        if (requests.length === 0) return;
+
+        const rows = await this.getSpreadsheetData();
+        const headers = rows[0];
+        const columns = await this.getRequiredColumns(headers);
+        if (!columns) return;
+
+        const sheetEntries = this.getSheetEntries(rows, columns);
+
+        for (const [key, request] of requests) {
+            const entry = this.ledger.get(key);
+            const channel = entry && channels.find(channel => channel.id === entry.channelId);
+            const row = sheetEntries.get(key);
+            const thread = channel ? await channel.threads.fetch(entry.threadId).catch(() => null) : null;
+            if (!channel || !thread || !row) {
+                log.info(`${request.guildName} asked for a bump but has no posted thread, skipping.`);
+                recruiters.update(key, current => ({ ...current!, bumpRequestedAt: undefined }));
+                continue;
+            }
+
+            try {
+                // Rate limits are retried by the action queue; a failed bump keeps the request for the next cycle
+                if (!await this.handleThreadReposting(channel, thread, row, headers)) {
+                    log.warn(`Bumping ${request.guildName} failed, it will be retried next cycle.`, { channel: channel.name });
+                    this.cycleIncomplete = true;
+                    continue;
+                }
+                recruiters.update(key, current => ({ ...current!, bumpRequestedAt: undefined }));
+                log.info(`Bumped ${request.guildName} at its recruiter's request.`, { channel: channel.name });
+            } catch (error) {
+                // A timeout means Discord is backed up, so the remaining requests wait too
+                const reason = error instanceof ActionTimeoutError ? 'timed out' : 'failed';
+                log.error(`Bumping thread ${reason}: ${error}. Stopping further bumps.`);
+                this.cycleIncomplete = true;
+                break;
+            }
+        }
+    }
+
+    // The post a guild's newest submission would get, for previews; null when the guild isn't in the sheet
+    public async renderPost(key: string): Promise<MessageCreateOptions | null> {
+        const rows = await this.getSpreadsheetData();
+        const headers = rows[0];
+        const columns = await this.getRequiredColumns(headers);
+        if (!columns) return null;
+
+        const row = this.getSheetEntries(rows, columns).get(key);
+        return row ? this.generateMessageContent(headers, row) : null;
+    }
+
+    // Index of the sheet column that sets each entry's repost weight, or -1 when none is configured
+    private getPriorityColumnIndex(headers: string[]): number {
+        const column = this.config.REPOST_PRIORITY_COLUMN?.trim().toLowerCase();
+        return column ? headers.findIndex(header => header?.trim().toLowerCase() === column) : -1;
+    }
+
+    public async postNewEntries(channels: ForumChannel[]) {
+        const log = this.log.child({ action: 'post-new' });
         let newPostsAdded = 0;
-        let hasTimeoutOccurred = false;
     
         try {
-            console.log(colorize('\n\nStarting to check for new entries to post...', COLORS.YELLOW));
+            log.info('Starting to check for new entries to post...');
     
             const rows = await this.getSpreadsheetData();
             const headers = rows[0];
-            const factionIndex = headers.indexOf('Faction');
-            const guildNameIndex = headers.indexOf('Guild Name');
-            const timestampIndex = headers.indexOf('Timestamp');
-            const guildScopeIndex = headers.indexOf('Guild Type'); // Assuming this is the correct column header
+            const columns = await this.getRequiredColumns(headers);
+            if (!columns) return;
     
-            if (factionIndex === -1 || guildNameIndex === -1 || timestampIndex === -1 || guildScopeIndex === -1) {
-                console.error('Required columns not found in Google Sheets data.');
-                return;
-            }
-    
-            // Fetch existing thread names from both channels
-            const existingThreads = await Promise.all([
-                this.fetchAndFilterThreads(allianceChannel, () => true),
-                this.fetchAndFilterThreads(hordeChannel, () => true),
-            ]);
-    
-            // Combine all thread names into one array and convert to lowercase for case-insensitive comparison
-            const existingThreadNames = [
-                ...existingThreads[0].map(thread => thread.name.trim().toLowerCase()),
-                ...existingThreads[1].map(thread => thread.name.trim().toLowerCase())
-            ];
+            const guildNameIndex = columns.GUILD_NAME;
+            const timestampIndex = columns.TIMESTAMP;
+            const guildScopeIndex = columns.GUILD_TYPE;
     
             // Fetch the maximum number of new threads allowed per cycle from the config
             const maxNewThreads = this.config.MAX_NEW_THREADS_PER_CYCLE || 10;
+            const approvals = this.config.REQUIRE_APPROVAL ? ApprovalStore.load(this.guildId) : null;
+            const similarNameCases = SimilarNameCaseStore.load(this.guildId);
+            const recruiters = RecruiterStore.load(this.guildId);
     
-            // First pass: Identify new guild names by checking if they are not contained in any existing thread title
+            // First pass: Identify new guild names as sheet entries that have no thread in a routed channel
             const newGuildNames = new Set<string>();
+            const channelIds = channels.map(channel => channel.id);
+            const sheetEntries = this.getSheetEntries(rows, columns);
     
-            for (const row of rows.slice(1)) {
-                const guildName = row[guildNameIndex]?.trim();
-    
-                if (guildName) {
-                    const guildNameLower = guildName.toLowerCase();
-                    const threadExists = existingThreadNames.some(threadName => {
-                        const regex = new RegExp(`^<${guildNameLower}>`, 'i'); // Match the exact guild name at the start of the thread title
-                        const exists = regex.test(threadName);
-                        return exists;
-                    });
-                    if (!threadExists) {
-                        newGuildNames.add(guildName.trim());
-                    }
+            for (const [key, row] of sheetEntries) {
+                // Entries a moderator merged into a similar one, or a recruiter took down, stay hidden
+                if (similarNameCases.isMergedAway(key, hashRow(row)) || recruiters.isHidden(key, hashRow(row))) continue;
+
+                const entry = this.ledger.get(key);
+                if (!entry || !channelIds.includes(entry.channelId)) {
+                    newGuildNames.add(key);
                 }
             }
     
             // If no new guild names found, exit early
             if (newGuildNames.size === 0) {
-                console.log('No new guild names found.');
+                log.info('No new guild names found.');
                 return;
             }
     
-            // Second pass: Process rows for new guild names and create threads if necessary
-            for (const row of rows.slice(1)) {
-                if (hasTimeoutOccurred || newPostsAdded >= maxNewThreads) break; // Exit loop if timeout or max posts reached
+            // Second pass: Process the newest row of each new guild name and create threads if necessary
+            for (const row of sheetEntries.values()) {
+                // Exit loop if max posts reached; the rest are posted next cycle
+                if (newPostsAdded >= maxNewThreads) {
+                    this.cycleIncomplete = true;
+                    break;
+                }
     
                 const guildName = row[guildNameIndex]?.trim();
-                const faction = row[factionIndex]?.trim();
                 const timestamp = row[timestampIndex]?.trim();
                 const guildScope = row[guildScopeIndex]?.trim(); // Get guildScope from row
     
-                if (!guildName || !newGuildNames.has(guildName) || this.isEntryTooOld(timestamp)) continue;
+                if (!guildName || !newGuildNames.has(normalizeGuildName(guildName)) || this.getEntryAgeStatus(timestamp, guildName) !== 'current') continue;
     
-                const targetChannel = faction === 'Alliance' ? allianceChannel : faction === 'Horde' ? hordeChannel : null;
+                const targetChannel = this.getTargetChannel(headers, row, channels);
                 if (!targetChannel) continue;
     
+                // In approval mode, only approved entries go public; the rest get a preview in the mod forum. An approval of
+                // other content, e.g. of an ad that expired before this resubmission, doesn't carry over.
+                const key = normalizeGuildName(guildName);
+                if (approvals && !approvals.isApproved(key, hashRow(row))) {
+                    newGuildNames.delete(key);
+    
+                    // Content that was already sent for review waits for a decision
+                    if (await this.requestApproval(approvals, guildName, targetChannel, headers, row)) {
+                        newPostsAdded++;
+                    }
+                    continue;
+                }
+    
                 const messageOptions = await this.generateMessageContent(headers, row);
     
                 try {
-                    const threadCreationPromise = this.createGuildRecruitmentThread(targetChannel, guildName, guildScope, messageOptions);
-                    const timeoutPromise = new Promise<ThreadChannel>((_, reject) =>
-                        setTimeout(() => reject(new Error('Thread creation timed out')), 10000)
-                    );
-    
-                    const thread = await Promise.race([threadCreationPromise, timeoutPromise]);
+                    const appliedTags = await this.getAppliedTags(targetChannel, headers, row);
+                    const thread = await this.createGuildRecruitmentThread(targetChannel, guildName, guildScope, messageOptions, appliedTags);
+                    newGuildNames.delete(normalizeGuildName(guildName));
+                    if (!thread) {
+                        // The error is logged and kept for the sheet's status columns; the next cycle tries again
+                        continue;
+                    }
+                    this.recordThread(guildName, thread, headers, row);
+                    metrics.threadsPosted.inc({ guild: this.guildId, channel: targetChannel.name });
+                    await this.notifySubscribers(guildName, thread, row[columns.FACTION], getClassNeeds(headers, row));
     
-                    console.log(colorize(`[${targetChannel.name}] Added new thread: ${guildName}`, COLORS.GREEN));
+                    log.info(`Added new thread: ${guildName}`, { channel: targetChannel.name });
                     newPostsAdded++;
     
                     // Stop creating new threads if we hit the limit for this cycle
                     if (newPostsAdded >= maxNewThreads) {
-                        console.log(colorize(`Reached the limit of ${maxNewThreads} new threads for this cycle.`, COLORS.YELLOW));
+                        log.info(`Reached the limit of ${maxNewThreads} new threads for this cycle.`);
+                        this.cycleIncomplete = true;
                         break;
                     }
                 } catch (error: unknown) {
-                    if (error instanceof Error) {
-                        if (error.message.includes('Thread creation timed out')) {
-                            console.error('Thread creation timed out due to rate limit. Stopping further posts.');
-                            hasTimeoutOccurred = true; // Flag timeout occurrence
-                            break; // Exit loop if timeout occurs
-                        } else if (error instanceof RateLimitError) {
-                            const delay = getRateLimitDelay(error);
-                            console.warn(`Rate limit error while posting new entry in ${targetChannel.name}: ${error.message}`);
-                            await new Promise(resolve => setTimeout(resolve, delay));
-                        } else {
-                            console.error(`Failed to create thread due to error: ${error.message}`);
-                            console.error(error.stack); // Log the stack trace for debugging
-                            continue; // Continue to the next row if error persists
-                        }
+                    if (error instanceof ActionTimeoutError) {
+                        log.error('Thread creation timed out. Stopping further posts.');
+                        this.cycleIncomplete = true;
+                        break;
+                    } else if (error instanceof Error) {
+                        log.error(`Failed to create thread due to error: ${error.stack || error.message}`);
+                        this.cycleIncomplete = true;
+                        this.recordPostError(headers, row, error);
+                        continue; // Continue to the next row if error persists
                     } else {
-                        console.error(`An unknown error occurred: ${String(error)}`);
+                        log.error(`An unknown error occurred: ${String(error)}`);
+                        this.cycleIncomplete = true;
                     }
                 }
             }
     
             if (newPostsAdded === 0) {
-                console.log('No new posts to add.');
+                log.info('No new posts to add.');
             } else {
-                console.log(`Total new posts added: ${newPostsAdded}`);
+                log.info(`Total new posts added: ${newPostsAdded}`);
             }
         } catch (error: unknown) {
-            console.error('Failed to post new entries due to an unexpected error.');
             if (error instanceof Error) {
-                console.error(error.message); // Log the specific error message
-                console.error(error.stack); // Log the stack trace for debugging
+                log.error(`Failed to post new entries due to an unexpected error: ${error.stack || error.message}`);
+                this.cycleIncomplete = true;
             } else {
-                console.error(`An unknown error occurred: ${String(error)}`);
+                log.error(`Failed to post new entries due to an unknown error: ${String(error)}`);
+                this.cycleIncomplete = true;
             }
         }
     }     
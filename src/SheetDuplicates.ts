@@ -0,0 +1,88 @@
+import { normalizeGuildName } from './ThreadLedger';
+
+export interface Submission {
+    row: string[];
+    rowNumber: number; // As shown in the sheet, where the headers are row 1
+    submittedAt: number | null;
+}
+
+// Every submission for one guild name: the newest is the one that gets posted, the rest are superseded
+export interface SubmissionGroup {
+    guildName: string;
+    newest: Submission;
+    superseded: Submission[];
+}
+
+export interface SpamSubmitter {
+    submitter: string;
+    guildNames: string[];
+    count: number;
+}
+
+// A submission replaces the current newest unless it is known to be older; rows without a readable
+// timestamp only win over other unreadable rows, by coming later in the sheet
+const isNewer = (candidate: Submission, current: Submission): boolean => {
+    if (candidate.submittedAt !== null && current.submittedAt !== null) return candidate.submittedAt >= current.submittedAt;
+    return candidate.submittedAt !== null || current.submittedAt === null;
+};
+
+// Group the sheet's submissions by ledger key, skipping the header row and rows without a guild name
+export const groupSubmissions = (
+    rows: any[][],
+    guildNameIndex: number,
+    timestampIndex: number,
+    parseTime: (timestamp: string) => number | null
+): Map<string, SubmissionGroup> => {
+    const groups = new Map<string, SubmissionGroup>();
+
+    rows.slice(1).forEach((row, index) => {
+        const guildName = row[guildNameIndex]?.trim();
+        if (!guildName) return;
+
+        const submission: Submission = { row, rowNumber: index + 2, submittedAt: parseTime(row[timestampIndex] || '') };
+        const key = normalizeGuildName(guildName);
+        const group = groups.get(key);
+
+        if (!group) {
+            groups.set(key, { guildName, newest: submission, superseded: [] });
+        } else if (isNewer(submission, group.newest)) {
+            group.superseded.push(group.newest);
+            group.newest = submission;
+            group.guildName = guildName;
+        } else {
+            group.superseded.push(submission);
+        }
+    });
+
+    return groups;
+};
+
+// Submitters with more than `limit` submissions in the window, identified by their Discord contact when the
+// sheet has one, otherwise by guild name
+export const findSpamSubmitters = (
+    groups: Map<string, SubmissionGroup>,
+    contactIndex: number,
+    limit: number,
+    now: number,
+    windowMs: number = 24 * 60 * 60 * 1000
+): SpamSubmitter[] => {
+    const submitters = new Map<string, SpamSubmitter>();
+
+    for (const [key, group] of groups) {
+        for (const submission of [group.newest, ...group.superseded]) {
+            if (submission.submittedAt === null || now - submission.submittedAt > windowMs) continue;
+
+            const contact = contactIndex !== -1 ? submission.row[contactIndex]?.trim() : '';
+            const submitterKey = contact ? contact.toLowerCase() : key;
+            const submitter = submitters.get(submitterKey) || { submitter: contact || group.guildName, guildNames: [], count: 0 };
+
+            submitter.count++;
+            if (!submitter.guildNames.includes(group.guildName)) {
+                submitter.guildNames.push(group.guildName);
+            }
+            submitters.set(submitterKey, submitter);
+        }
+    }
+
+    return Array.from(submitters.values()).filter(submitter => submitter.count > limit);
+};
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+import { createEntryMap } from './ThreadLedger';
+
+// open: waiting for a moderator; merge: the older ad will be removed next cycle; merged: it was removed
+export type SimilarCaseStatus = 'open' | 'not_duplicate' | 'ignored' | 'merge' | 'merged';
+
+export interface SimilarCaseEntry {
+    key: string;
+    guildName: string;
+    submittedAt?: string;
+}
+
+export interface SimilarNameCase {
+    entries: SimilarCaseEntry[];
+    status: SimilarCaseStatus;
+    caseThreadId: string;
+    openedAt: string;
+    ignoredUntil?: string;
+    removedKey?: string;
+    // Hash of the removed entry's row; it stays hidden until the submission changes
+    removedHash?: string;
+    decidedBy?: string;
+    decidedAt?: string;
+}
+
+// Case files live next to the other runtime settings, one file per server
+const caseDirectory = path.resolve(__dirname, 'similar-names');
+
+// A pair of entries is one case whichever order they were found in
+export const similarCaseKey = (keyA: string, keyB: string): string => [keyA, keyB].sort().join('|');
+
+// Whether a pair found again this cycle should be reported: only if it was never reported,
+// an ignore ran out, or a merged-away entry came back
+export const needsReport = (existing: SimilarNameCase | undefined, now: number = Date.now()): boolean => {
+    if (!existing) return true;
+    if (existing.status === 'ignored') return !existing.ignoredUntil || Date.parse(existing.ignoredUntil) <= now;
+    return existing.status === 'merged';
+};
+
+// Both the poll cycle and button handlers write cases, so every write re-reads the file first
+export class SimilarNameCaseStore {
+    private cases: Record<string, SimilarNameCase>;
+
+    private constructor(private filePath: string) {
+        this.cases = this.read();
+    }
+
+    public static load(guildId: string): SimilarNameCaseStore {
+        return new SimilarNameCaseStore(path.join(caseDirectory, `${guildId}.json`));
+    }
+
+    private read(): Record<string, SimilarNameCase> {
+        if (!fs.existsSync(this.filePath)) return createEntryMap();
+
+        try {
+            return createEntryMap(JSON.parse(fs.readFileSync(this.filePath, 'utf-8') || '{}'));
+        } catch (error) {
+            logger.error(`Failed to read similar name cases ${this.filePath}: ${error}`);
+            return createEntryMap();
+        }
+    }
+
+    public get(caseKey: string): SimilarNameCase | undefined {
+        return this.cases[caseKey];
+    }
+
+    public all(): Record<string, SimilarNameCase> {
+        return this.cases;
+    }
+
+    public findByCaseThreadId(threadId: string): [string, SimilarNameCase] | undefined {
+        return Object.entries(this.cases).find(([, entry]) => entry.caseThreadId === threadId);
+    }
+
+    // Whether an entry was merged away and its row is unchanged since
+    public isMergedAway(key: string, contentHash: string): boolean {
+        return Object.values(this.cases).some(entry =>
+            entry.status === 'merged' && entry.removedKey === key && entry.removedHash === contentHash);
+    }
+
+    public set(caseKey: string, entry: SimilarNameCase) {
+        this.cases = this.read();
+        this.cases[caseKey] = entry;
+
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify(this.cases, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save similar name cases ${this.filePath}: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './Logger';
+import { writeFileAtomic } from './Files';
+import { ClassNeed } from './GuildSearch';
+
+export interface LedgerEntry {
+    guildName: string;
+    threadId: string;
+    channelId: string;
+    postedAt: string;
+    contentHash: string;
+    needs?: ClassNeed[]; // Classes and roles the posted row was recruiting, to spot needs added by an edit
+}
+
+// Ledger files live next to the other runtime settings, one file per server
+const ledgerDirectory = path.resolve(__dirname, 'ledgers');
+
+// Key used to identify a sheet entry: case-insensitive with collapsed whitespace
+export const normalizeGuildName = (guildName: string): string => guildName.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Hash of a sheet row, used to tell whether a posted entry has changed since it was posted
+export const hashRow = (row: string[]): string => {
+    const normalizedRow = row.map(value => (value ?? '').toString().trim());
+    return crypto.createHash('sha256').update(JSON.stringify(normalizedRow)).digest('hex');
+};
+
+// Store files are keyed by guild names, which can be anything a submitter typed, so their maps have no prototype:
+// "__proto__" and "constructor" are ordinary keys instead of Object.prototype members
+export const createEntryMap = <T>(entries: Record<string, T> = {}): Record<string, T> =>
+    Object.assign(Object.create(null), entries);
+
+export class ThreadLedger {
+    private constructor(
+        private filePath: string,
+        private entries: Record<string, LedgerEntry>,
+        public readonly isNew: boolean
+    ) {}
+
+    public static load(guildId: string): ThreadLedger {
+        const filePath = path.join(ledgerDirectory, `${guildId}.json`);
+
+        if (!fs.existsSync(filePath)) {
+            return new ThreadLedger(filePath, createEntryMap(), true);
+        }
+
+        try {
+            const entries = createEntryMap<LedgerEntry>(JSON.parse(fs.readFileSync(filePath, 'utf-8') || '{}'));
+            return new ThreadLedger(filePath, entries, false);
+        } catch (error) {
+            logger.error(`Failed to read thread ledger ${filePath}, rebuilding it: ${error}`);
+            return new ThreadLedger(filePath, createEntryMap(), true);
+        }
+    }
+
+    public get(key: string): LedgerEntry | undefined {
+        return this.entries[key];
+    }
+
+    public has(key: string): boolean {
+        return key in this.entries;
+    }
+
+    public set(key: string, entry: LedgerEntry) {
+        this.entries[key] = entry;
+    }
+
+    public delete(key: string) {
+        delete this.entries[key];
+    }
+
+    public findByThreadId(threadId: string): [string, LedgerEntry] | undefined {
+        return Object.entries(this.entries).find(([, entry]) => entry.threadId === threadId);
+    }
+
+    public allEntries(): [string, LedgerEntry][] {
+        return Object.entries(this.entries);
+    }
+
+    public entriesForChannel(channelId: string): [string, LedgerEntry][] {
+        return Object.entries(this.entries).filter(([, entry]) => entry.channelId === channelId);
+    }
+
+    public save() {
+        try {
+            writeFileAtomic(this.filePath, JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            logger.error(`Failed to save thread ledger ${this.filePath}: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { DateTime } from 'luxon';
+
+// Google Forms' US formats (24- and 12-hour), with single-digit months, days and hours allowed
+export const DEFAULT_TIMESTAMP_FORMATS = ['M/d/yyyy H:mm:ss', 'M/d/yyyy h:mm:ss a'];
+
+export const isValidTimezone = (zone: string): boolean => DateTime.now().setZone(zone).isValid;
+
+// Try ISO 8601 first, then each luxon format in order; returns null when nothing matches
+export const parseTimestamp = (value: string, formats: string[] = DEFAULT_TIMESTAMP_FORMATS, zone: string = 'local'): DateTime | null => {
+    const text = value?.trim();
+    if (!text) return null;
+
+    const iso = DateTime.fromISO(text, { zone });
+    if (iso.isValid) return iso;
+
+    for (const format of formats.length > 0 ? formats : DEFAULT_TIMESTAMP_FORMATS) {
+        const parsed = DateTime.fromFormat(text, format, { zone });
+        if (parsed.isValid) return parsed;
+    }
+
+    return null;
+};
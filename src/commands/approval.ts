@@ -0,0 +1,95 @@
+import {
+    ActionRowBuilder,
+    MessageComponentInteraction,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    PermissionFlagsBits,
+    TextInputBuilder,
+    TextInputStyle
+} from 'discord.js';
+import { ComponentHandler } from '../CommandRegistry';
+import { ApprovalStore, ApprovalStatus } from '../ApprovalStore';
+import { logger } from '../Logger';
+import { APPROVE_BUTTON_ID, CHANGES_BUTTON_ID, REJECT_BUTTON_ID } from '../Components';
+
+const REJECT_MODAL_ID = 'approval_reject_modal';
+const CHANGES_MODAL_ID = 'approval_changes_modal';
+const REASON_INPUT_ID = 'reason';
+
+const buildReasonModal = (customId: string, title: string) => new ModalBuilder()
+    .setCustomId(customId)
+    .setTitle(title)
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+            .setCustomId(REASON_INPUT_ID)
+            .setLabel('Reason (shown to the submitter)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(1000)
+            .setRequired(true)
+    ));
+
+const recordDecision = async (interaction: MessageComponentInteraction | ModalSubmitInteraction, status: ApprovalStatus, reason?: string) => {
+    const guildId = interaction.guild?.id;
+    const previewThreadId = interaction.channelId;
+    if (!guildId || !previewThreadId) return;
+
+    const approvals = ApprovalStore.load(guildId);
+    const approval = approvals.findByPreviewThreadId(previewThreadId);
+    if (!approval || approval[1].status !== 'pending') {
+        await interaction.reply({
+            content: 'This submission is no longer waiting for approval.',
+            ephemeral: true
+        });
+        return;
+    }
+
+    const [key, entry] = approval;
+    approvals.set(key, {
+        ...entry,
+        status,
+        reason,
+        decidedBy: interaction.user.id,
+        decidedAt: new Date().toISOString(),
+    });
+
+    // Remove the buttons so the submission can't be decided twice
+    await interaction.message?.edit({ components: [] });
+
+    const summaries: Record<ApprovalStatus, string> = {
+        pending: '',
+        approved: `✅ Approved by <@${interaction.user.id}>. It will be posted in the next cycle.`,
+        rejected: `❌ Rejected by <@${interaction.user.id}>.\n**Reason:** ${reason}`,
+        changes_requested: `✏️ Changes requested by <@${interaction.user.id}>.\n**Requested changes:** ${reason}\nIt will be reviewed again once the submission is updated.`,
+    };
+
+    await interaction.reply({ content: summaries[status] });
+    logger.info(`Submission for ${entry.guildName} marked as ${status} by ${interaction.user.tag}.`, { guildId, action: 'approval' });
+};
+
+export const approvalHandler: ComponentHandler = {
+    matches: (customId: string) => [APPROVE_BUTTON_ID, REJECT_BUTTON_ID, CHANGES_BUTTON_ID, REJECT_MODAL_ID, CHANGES_MODAL_ID].includes(customId),
+
+    async execute(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+        if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)) {
+            await interaction.reply({
+                content: 'Only moderators can review submissions.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (interaction.isModalSubmit()) {
+            const reason = interaction.fields.getTextInputValue(REASON_INPUT_ID).trim();
+            await recordDecision(interaction, interaction.customId === REJECT_MODAL_ID ? 'rejected' : 'changes_requested', reason);
+            return;
+        }
+
+        if (interaction.customId === APPROVE_BUTTON_ID) {
+            await recordDecision(interaction, 'approved');
+        } else if (interaction.customId === REJECT_BUTTON_ID) {
+            await interaction.showModal(buildReasonModal(REJECT_MODAL_ID, 'Reject submission'));
+        } else {
+            await interaction.showModal(buildReasonModal(CHANGES_MODAL_ID, 'Request changes'));
+        }
+    },
+};
@@ -0,0 +1,48 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, readSubmissionGroups } from '../ServerConfig';
+import { Submission, findSpamSubmitters } from '../SheetDuplicates';
+
+const describeSubmission = (submission: Submission): string =>
+    `row ${submission.rowNumber}${submission.submittedAt !== null ? ` (<t:${Math.floor(submission.submittedAt / 1000)}:d>)` : ''}`;
+
+export const duplicatesCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('duplicates')
+        .setDescription('List guilds that submitted the form more than once, and which submission is posted.')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const serverConfig = readServerConfig(serverId);
+        const { indices, groups } = await readSubmissionGroups(serverId);
+
+        if (indices.GUILD_NAME === -1) {
+            await interaction.editReply('No guild name column found in the sheet. Use /setupcolumns to map it.');
+            return;
+        }
+
+        const duplicates = Array.from(groups.values()).filter(group => group.superseded.length > 0);
+        if (duplicates.length === 0) {
+            await interaction.editReply('✅ Every guild has a single submission in the sheet.');
+            return;
+        }
+
+        const lines = duplicates.map(group => `- **${group.guildName}**: ${group.superseded.length + 1} submissions. ` +
+            `Posting ${describeSubmission(group.newest)}, superseded ${group.superseded.map(describeSubmission).join(', ')}`);
+
+        const limit = serverConfig.MAX_SUBMISSIONS_PER_DAY || 3;
+        const spammers = findSpamSubmitters(groups, indices.DISCORD_CONTACT, limit, Date.now());
+        const spam = spammers.length > 0
+            ? `\n\n⚠️ **More than ${limit} submissions in the last 24 hours:** ${spammers.map(spammer => `${spammer.submitter} (${spammer.count})`).join(', ')}`.slice(0, 600)
+            : '';
+
+        await interaction.editReply(`**${duplicates.length} guilds with duplicate submissions**\n${lines.join('\n')}`.slice(0, 1800 - spam.length) + spam);
+    },
+};
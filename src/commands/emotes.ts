@@ -0,0 +1,140 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { getActionQueue, readServerConfig, saveServerConfig } from '../ServerConfig';
+import { getEmoteKeys, getEmoteMap, parseCustomEmoji, resolveEmote } from '../Emotes';
+import { GameTemplate, findTemplateName, getGameTemplate } from '../GameTemplates';
+import { logger } from '../Logger';
+
+// A template's default icons are custom emojis, which Discord's CDN serves to anyone
+const emojiImageUrl = (id: string) => `https://cdn.discordapp.com/emojis/${id}.png`;
+
+type UploadedEmoji = { name: string | null; id: string };
+
+// "Warrior" and "[Warrior]" both name the Warrior class column; the template's roles are used as written
+const normalizeEmoteKey = (key: string, template: GameTemplate): string => {
+    const text = key.trim();
+    if (text.startsWith('[')) return text;
+    return findTemplateName(template.roles, text) || `[${text}]`;
+};
+
+export const emotesCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('emotes')
+        .setDescription('Choose the emotes shown for classes and roles in recruitment posts.')
+        .addSubcommand(subcommand => subcommand
+            .setName('show')
+            .setDescription('Show the emote used for each class and role.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('set')
+            .setDescription('Set the emote for a class or role.')
+            .addStringOption(option => option
+                .setName('name')
+                .setDescription('A class column such as Warrior, or a role such as Tank.')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('emote')
+                .setDescription('A server emoji, a Unicode emoji or plain text.')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('reset')
+            .setDescription('Go back to the default emote for one class or role, or for all of them.')
+            .addStringOption(option => option
+                .setName('name')
+                .setDescription('A class or role. Leave empty to reset every emote.')))
+        .addSubcommand(subcommand => subcommand
+            .setName('upload')
+            .setDescription('Upload the default class and role icons as emojis and use them.')
+            .addStringOption(option => option
+                .setName('target')
+                .setDescription('Where to upload the icons.')
+                .setRequired(true)
+                .addChoices(
+                    { name: 'This server', value: 'server' },
+                    { name: 'The bot application (usable in every server)', value: 'application' }
+                )))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const guild = interaction.guild;
+        if (!guild) return;
+
+        const subcommand = interaction.options.getSubcommand();
+        let serverConfig = readServerConfig(guild.id);
+        const template = getGameTemplate(serverConfig.GAME_TEMPLATE);
+        const overrides = { ...serverConfig.EMOTES };
+
+        if (subcommand === 'set') {
+            overrides[normalizeEmoteKey(interaction.options.getString('name', true), template)] = interaction.options.getString('emote', true).trim();
+        } else if (subcommand === 'reset') {
+            const name = interaction.options.getString('name');
+            if (name) {
+                delete overrides[normalizeEmoteKey(name, template)];
+            } else {
+                Object.keys(overrides).forEach(key => delete overrides[key]);
+            }
+        } else if (subcommand === 'upload') {
+            if (!Object.values(template.emotes).some(emote => parseCustomEmoji(emote))) {
+                await interaction.reply({
+                    content: `The ${template.name} template has no custom emoji icons to upload; its defaults work everywhere.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            await interaction.deferReply({ ephemeral: true });
+
+            const target = interaction.options.getString('target', true);
+            const application = interaction.client.application;
+            const existing: UploadedEmoji[] = target === 'server'
+                ? Array.from((await guild.emojis.fetch()).values())
+                : Array.from((await application.emojis.fetch()).values());
+            const create = (name: string, attachment: string): Promise<UploadedEmoji> => target === 'server'
+                ? guild.emojis.create({ attachment, name })
+                : application.emojis.create({ attachment, name });
+            const failed: string[] = [];
+
+            for (const [key, emote] of Object.entries(template.emotes)) {
+                const defaultEmoji = parseCustomEmoji(emote);
+                if (!defaultEmoji) continue;
+
+                try {
+                    // Reuse an emoji uploaded earlier under the same name
+                    const emoji = existing.find(emoji => emoji.name === defaultEmoji.name) ||
+                        await getActionQueue().run(`emoji:${target === 'server' ? guild.id : 'application'}:${defaultEmoji.name}`,
+                            () => create(defaultEmoji.name, emojiImageUrl(defaultEmoji.id)));
+                    overrides[key] = `<:${emoji.name}:${emoji.id}>`;
+                } catch (error) {
+                    logger.warn(`Failed to upload the ${key} emoji: ${error}`, { guildId: guild.id, action: 'emotes' });
+                    failed.push(key);
+                }
+            }
+
+            serverConfig.EMOTES = overrides;
+            saveServerConfig(guild.id, serverConfig);
+
+            await interaction.editReply(failed.length === 0
+                ? '✅ Uploaded the default icons and switched to them.'
+                : `⚠️ Could not upload ${failed.join(', ')}. Check that the bot has the **Manage Expressions** permission and a free emoji slot; the others were uploaded.`);
+            return;
+        }
+
+        if (subcommand !== 'show') {
+            serverConfig.EMOTES = overrides;
+            saveServerConfig(guild.id, serverConfig);
+        }
+
+        // Show what posts will actually display, including labels used in place of unavailable emojis
+        const emotes = getEmoteMap(template, serverConfig.EMOTES);
+        const client = interaction.client;
+        const isEmojiAvailable = (id: string) => client.emojis.cache.has(id) || client.application.emojis.cache.has(id);
+        const keys = new Set([...getEmoteKeys(template), ...Object.keys(emotes)]);
+        const lines = Array.from(keys).map(key => `${key}: ${resolveEmote(key, emotes, template, isEmojiAvailable)}${serverConfig.EMOTES?.[key] ? ' (custom)' : ''}`);
+
+        await interaction.reply({
+            content: lines.join('\n').slice(0, 2000),
+            ephemeral: true
+        });
+    },
+};
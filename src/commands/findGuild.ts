@@ -0,0 +1,142 @@
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    MessageComponentInteraction,
+    ModalSubmitInteraction
+} from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { ComponentHandler, SlashCommand } from '../CommandRegistry';
+import { readServerConfig, readSubmissionGroups } from '../ServerConfig';
+import { ThreadLedger } from '../ThreadLedger';
+import { GuildSearchQuery, GuildSearchResult, searchGuilds } from '../GuildSearch';
+import { findTemplateName, getGameTemplate } from '../GameTemplates';
+
+const PAGE_BUTTON_PREFIX = 'findguild_page:';
+const RESULTS_PER_PAGE = 10;
+
+// Results are kept for as long as Discord lets the ephemeral reply be edited
+const SEARCH_LIFETIME_MS = 15 * 60 * 1000;
+const searches = new Map<string, { results: GuildSearchResult[]; description: string; expiresAt: number }>();
+
+const describeQuery = (query: GuildSearchQuery): string => [
+    query.name && `name "${query.name}"`,
+    query.faction,
+    query.guildType,
+    query.className,
+    query.role,
+].filter(Boolean).join(', ') || 'all guilds';
+
+const buildPage = (serverId: string, searchId: string, page: number) => {
+    const search = searches.get(searchId)!;
+    const pageCount = Math.max(1, Math.ceil(search.results.length / RESULTS_PER_PAGE));
+    const pageResults = search.results.slice(page * RESULTS_PER_PAGE, (page + 1) * RESULTS_PER_PAGE);
+
+    const embed = new EmbedBuilder()
+        .setColor('#0099ff')
+        .setTitle(`${search.results.length} guilds found`)
+        .setDescription(pageResults
+            .map(result => `- [${result.guildName}](https://discord.com/channels/${serverId}/${result.threadId})${result.guildType ? ` (${result.guildType})` : ''}`)
+            .join('\n') || 'No recruitment posts match your search.')
+        .setFooter({ text: `Search: ${search.description} • Page ${page + 1} of ${pageCount}` });
+
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder().setCustomId(`${PAGE_BUTTON_PREFIX}${searchId}:${page - 1}`).setLabel('Previous').setStyle(ButtonStyle.Secondary).setDisabled(page === 0),
+        new ButtonBuilder().setCustomId(`${PAGE_BUTTON_PREFIX}${searchId}:${page + 1}`).setLabel('Next').setStyle(ButtonStyle.Secondary).setDisabled(page >= pageCount - 1)
+    );
+
+    return { embeds: [embed], components: pageCount > 1 ? [buttons] : [] };
+};
+
+export const findGuildCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('findguild')
+        .setDescription('Search the recruitment posts for a guild that fits you.')
+        .addStringOption(option => option
+            .setName('name')
+            .setDescription('Part of the guild name.'))
+        .addStringOption(option => option
+            .setName('faction')
+            .setDescription('The guild\'s faction.'))
+        .addStringOption(option => option
+            .setName('guild_type')
+            .setDescription('Part of the guild type, e.g. Raiding or Social.'))
+        .addStringOption(option => option
+            .setName('class')
+            .setDescription('A class the guild is recruiting.'))
+        .addStringOption(option => option
+            .setName('role')
+            .setDescription('A role the guild is recruiting.'))
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        // Classes and roles depend on the server's game, so they are typed and checked against its template
+        const template = getGameTemplate(readServerConfig(serverId).GAME_TEMPLATE);
+        const classText = interaction.options.getString('class');
+        const roleText = interaction.options.getString('role');
+        const className = classText ? findTemplateName(template.classes, classText) : undefined;
+        const role = roleText ? findTemplateName(template.roles, roleText) : undefined;
+
+        if ((classText && !className) || (roleText && !role)) {
+            await interaction.reply({
+                content: classText && !className
+                    ? `Unknown class "${classText}". Classes: ${template.classes.join(', ')}`
+                    : `Unknown role "${roleText}". Roles: ${template.roles.join(', ')}`,
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const query: GuildSearchQuery = {
+            name: interaction.options.getString('name')?.trim() || undefined,
+            faction: interaction.options.getString('faction')?.trim() || undefined,
+            guildType: interaction.options.getString('guild_type')?.trim() || undefined,
+            className,
+            role,
+        };
+
+        // Only guilds with a live post are listed, using their newest submission
+        const { headers, indices, groups } = await readSubmissionGroups(serverId);
+        const postedRows = ThreadLedger.load(serverId).allEntries().flatMap(([key, entry]) => {
+            const group = groups.get(key);
+            return group ? [{ threadId: entry.threadId, row: group.newest.row }] : [];
+        });
+
+        // Forget searches whose reply can no longer be edited
+        for (const [id, search] of searches) {
+            if (search.expiresAt <= Date.now()) searches.delete(id);
+        }
+
+        searches.set(interaction.id, {
+            results: searchGuilds(headers, indices, postedRows, query),
+            description: describeQuery(query),
+            expiresAt: Date.now() + SEARCH_LIFETIME_MS,
+        });
+
+        await interaction.editReply(buildPage(serverId, interaction.id, 0));
+    },
+};
+
+export const findGuildPageHandler: ComponentHandler = {
+    matches: (customId: string) => customId.startsWith(PAGE_BUTTON_PREFIX),
+
+    async execute(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId || !interaction.isButton()) return;
+
+        const [searchId, page] = interaction.customId.slice(PAGE_BUTTON_PREFIX.length).split(':');
+        if (!searches.has(searchId)) {
+            await interaction.update({ content: 'This search has expired. Run /findguild again.', embeds: [], components: [] });
+            return;
+        }
+
+        await interaction.update(buildPage(serverId, searchId, Number(page)));
+    },
+};
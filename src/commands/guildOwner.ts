@@ -0,0 +1,51 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { RecruiterStore } from '../RecruiterStore';
+import { normalizeGuildName } from '../ThreadLedger';
+
+export const guildOwnerCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('guildowner')
+        .setDescription('Let a user manage a guild\'s recruitment post with /myguild.')
+        .addSubcommand(subcommand => subcommand
+            .setName('grant')
+            .setDescription('Link a user to a guild.')
+            .addStringOption(option => option.setName('guild_name').setDescription('The guild name as entered in the form.').setRequired(true))
+            .addUserOption(option => option.setName('user').setDescription('The guild\'s recruiter.').setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('revoke')
+            .setDescription('Unlink a user from a guild.')
+            .addStringOption(option => option.setName('guild_name').setDescription('The guild name as entered in the form.').setRequired(true))
+            .addUserOption(option => option.setName('user').setDescription('The user to unlink.').setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('list')
+            .setDescription('Show the users linked to a guild.')
+            .addStringOption(option => option.setName('guild_name').setDescription('The guild name as entered in the form.').setRequired(true)))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const subcommand = interaction.options.getSubcommand();
+        const guildName = interaction.options.getString('guild_name', true).trim();
+        const key = normalizeGuildName(guildName);
+        const recruiters = RecruiterStore.load(serverId);
+
+        if (subcommand !== 'list') {
+            const user = interaction.options.getUser('user', true);
+            recruiters.update(key, entry => {
+                const owners = (entry?.owners || []).filter(owner => owner !== user.id);
+                return { ...entry, guildName: entry?.guildName || guildName, owners: subcommand === 'grant' ? [...owners, user.id] : owners };
+            });
+        }
+
+        const owners = recruiters.get(key)?.owners || [];
+        await interaction.reply({
+            content: `**Linked to ${recruiters.get(key)?.guildName || guildName}:** ${owners.map(owner => `<@${owner}>`).join(', ') || 'nobody'}`,
+            ephemeral: true
+        });
+    },
+};
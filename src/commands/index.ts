@@ -0,0 +1,48 @@
+import { CommandRegistry } from '../CommandRegistry';
+import { setupCommand, setupChannelSelectHandler } from './setup';
+import { setupSheetCommand } from './setupSheet';
+import { setupTimersCommand } from './setupTimers';
+import { setupApprovalCommand } from './setupApproval';
+import { submissionStatusCommand } from './submissionStatus';
+import { setupColumnsCommand } from './setupColumns';
+import { setupTimestampsCommand } from './setupTimestamps';
+import { routingCommand } from './routing';
+import { setupLoggingCommand } from './setupLogging';
+import { setupRotationCommand } from './setupRotation';
+import { nextBumpCommand } from './nextBump';
+import { duplicatesCommand } from './duplicates';
+import { myGuildCommand } from './myGuild';
+import { guildOwnerCommand } from './guildOwner';
+import { findGuildCommand, findGuildPageHandler } from './findGuild';
+import { notifyCommand } from './notify';
+import { setupNotifyCommand } from './setupNotify';
+import { emotesCommand } from './emotes';
+import { templateCommand } from './template';
+import { approvalHandler } from './approval';
+import { similarNameHandler } from './similarNames';
+
+// Every slash command the bot offers, along with the components they send
+export const createCommandRegistry = (): CommandRegistry => new CommandRegistry()
+    .register(setupCommand)
+    .register(setupSheetCommand)
+    .register(setupTimersCommand)
+    .register(setupApprovalCommand)
+    .register(setupColumnsCommand)
+    .register(setupTimestampsCommand)
+    .register(routingCommand)
+    .register(setupLoggingCommand)
+    .register(setupRotationCommand)
+    .register(setupNotifyCommand)
+    .register(emotesCommand)
+    .register(templateCommand)
+    .register(submissionStatusCommand)
+    .register(nextBumpCommand)
+    .register(duplicatesCommand)
+    .register(myGuildCommand)
+    .register(guildOwnerCommand)
+    .register(findGuildCommand)
+    .register(notifyCommand)
+    .registerComponent(setupChannelSelectHandler)
+    .registerComponent(approvalHandler)
+    .registerComponent(similarNameHandler)
+    .registerComponent(findGuildPageHandler);
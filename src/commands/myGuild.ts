@@ -0,0 +1,120 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder, SlashCommandSubcommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { createServerManager, readServerConfig, readSubmissionGroups } from '../ServerConfig';
+import { RecruiterStore, isGuildContact } from '../RecruiterStore';
+import { ThreadLedger, hashRow, normalizeGuildName } from '../ThreadLedger';
+
+const addGuildNameOption = (subcommand: SlashCommandSubcommandBuilder) => subcommand.addStringOption(option => option
+    .setName('guild_name')
+    .setDescription('The guild name as entered in the form.')
+    .setRequired(true));
+
+export const myGuildCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('myguild')
+        .setDescription('Manage your guild\'s recruitment post.')
+        .addSubcommand(subcommand => addGuildNameOption(subcommand
+            .setName('bump')
+            .setDescription('Move your post back to the top of the forum.')))
+        .addSubcommand(subcommand => addGuildNameOption(subcommand
+            .setName('pause')
+            .setDescription('Take your post down until you resume it.')))
+        .addSubcommand(subcommand => addGuildNameOption(subcommand
+            .setName('resume')
+            .setDescription('Put a paused or removed post back up.')))
+        .addSubcommand(subcommand => addGuildNameOption(subcommand
+            .setName('remove')
+            .setDescription('Take your post down until you submit the form again.')))
+        .addSubcommand(subcommand => addGuildNameOption(subcommand
+            .setName('preview')
+            .setDescription('See how your post looks with your latest submission.')))
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const subcommand = interaction.options.getSubcommand();
+        const guildName = interaction.options.getString('guild_name', true);
+        const key = normalizeGuildName(guildName);
+
+        const { indices, groups } = await readSubmissionGroups(serverId);
+        const group = groups.get(key);
+        if (!group) {
+            await interaction.editReply(`No submission found for **${guildName}**.`);
+            return;
+        }
+
+        // Recruiters are the sheet's Discord contact, or users a moderator linked to the guild with /guildowner
+        const recruiters = RecruiterStore.load(serverId);
+        const recruiter = recruiters.get(key);
+        const isOwner = recruiter?.owners?.includes(interaction.user.id) ||
+            (indices.DISCORD_CONTACT !== -1 && isGuildContact(group.newest.row[indices.DISCORD_CONTACT], interaction.user)) ||
+            interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages);
+
+        if (!isOwner) {
+            await interaction.editReply(`You are not listed as the Discord contact for **${group.guildName}**. ` +
+                'Ask a moderator to link you to the guild with /guildowner.');
+            return;
+        }
+
+        if (subcommand === 'preview') {
+            const post = await createServerManager(interaction.client, serverId).renderPost(key);
+            if (!post) {
+                await interaction.editReply('Your post could not be rendered. Ask a moderator to check the sheet columns.');
+                return;
+            }
+
+            await interaction.editReply({
+                content: `Preview of the post for **${group.guildName}**:`,
+                embeds: post.embeds,
+                files: post.files,
+            });
+            return;
+        }
+
+        if (subcommand === 'bump') {
+            if (recruiter && recruiters.isHidden(key, hashRow(group.newest.row))) {
+                await interaction.editReply(`The post for **${group.guildName}** is down. Use \`/myguild resume\` first.`);
+                return;
+            }
+            if (!ThreadLedger.load(serverId).has(key)) {
+                await interaction.editReply(`**${group.guildName}** has no post yet, so there's nothing to bump.`);
+                return;
+            }
+
+            const cooldownMs = (readServerConfig(serverId).SELF_BUMP_COOLDOWN_HOURS || 24) * 60 * 60 * 1000;
+            const lastBump = recruiter?.lastBumpRequestAt ? Date.parse(recruiter.lastBumpRequestAt) : 0;
+            if (Date.now() - lastBump < cooldownMs) {
+                await interaction.editReply(`**${group.guildName}** can be bumped again <t:${Math.floor((lastBump + cooldownMs) / 1000)}:R>.`);
+                return;
+            }
+        }
+
+        const now = new Date().toISOString();
+        const changes: Record<string, { change: object; reply: string }> = {
+            bump: {
+                change: { bumpRequestedAt: now, lastBumpRequestAt: now },
+                reply: `⬆️ **${group.guildName}** will be bumped in the next check.`,
+            },
+            pause: {
+                change: { paused: true },
+                reply: `⏸️ The post for **${group.guildName}** will be taken down in the next check. Use \`/myguild resume\` to put it back.`,
+            },
+            resume: {
+                change: { paused: false, removedHash: undefined },
+                reply: `▶️ The post for **${group.guildName}** will be put back up in the next check.`,
+            },
+            remove: {
+                change: { paused: false, removedHash: hashRow(group.newest.row) },
+                reply: `🗑️ The post for **${group.guildName}** will be taken down in the next check. It comes back when you submit the form again.`,
+            },
+        };
+
+        recruiters.update(key, entry => ({ ...entry, ...changes[subcommand].change, guildName: group.guildName }));
+        await interaction.editReply(changes[subcommand].reply);
+    },
+};
@@ -0,0 +1,80 @@
+import { ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { DateTime } from 'luxon';
+import { SlashCommand } from '../CommandRegistry';
+import { readBotSettings, readServerConfig, readSubmissionGroups } from '../ServerConfig';
+import { ThreadLedger, normalizeGuildName } from '../ThreadLedger';
+import { RotationCandidate, RotationState, getRepostWeight, projectNextBump } from '../RepostRotation';
+
+// Priority weight of every sheet entry, by ledger key, read from each guild's newest submission like the poll cycle;
+// empty unless the server uses weighted rotation
+const readWeights = async (serverId: string): Promise<Map<string, number>> => {
+    const serverConfig = readServerConfig(serverId);
+    const column = serverConfig.REPOST_PRIORITY_COLUMN?.trim().toLowerCase();
+    if (serverConfig.REPOST_STRATEGY !== 'weighted' || !column) return new Map();
+
+    const { headers, groups } = await readSubmissionGroups(serverId);
+    const priorityIndex = headers.findIndex(header => header?.trim().toLowerCase() === column);
+    if (priorityIndex === -1) return new Map();
+
+    return new Map(Array.from(groups, ([key, group]) =>
+        [key, getRepostWeight(group.newest.row[priorityIndex], serverConfig.REPOST_PRIORITY_WEIGHTS)]));
+};
+
+export const nextBumpCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('nextbump')
+        .setDescription('See when a guild\'s recruitment post is expected to be bumped next.')
+        .addStringOption(option => option
+            .setName('guild_name')
+            .setDescription('The guild name as entered in the form.')
+            .setRequired(true))
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const guildName = interaction.options.getString('guild_name', true);
+        const key = normalizeGuildName(guildName);
+        const ledger = ThreadLedger.load(serverId);
+        const target = ledger.get(key);
+
+        if (!target) {
+            await interaction.editReply(`No posted thread found for **${guildName}**.`);
+            return;
+        }
+
+        const serverConfig = readServerConfig(serverId);
+        const weights = await readWeights(serverId);
+
+        // Every posted entry, grouped by the channel it is in, since each channel bumps one thread per cycle
+        const channels = new Map<string, RotationCandidate[]>();
+        for (const [entryKey, entry] of ledger.allEntries()) {
+            const candidates = channels.get(entry.channelId) || [];
+            candidates.push({
+                key: entryKey,
+                lastBumpedAt: DateTime.fromISO(entry.postedAt).toMillis(),
+                weight: weights.get(entryKey) ?? 1,
+            });
+            channels.set(entry.channelId, candidates);
+        }
+
+        const nextBump = projectNextBump(key, channels, RotationState.load(serverId), {
+            strategy: serverConfig.REPOST_STRATEGY || 'oldest-first',
+            threadAgeLimitMs: serverConfig.THREAD_AGE_LIMIT_HOURS * 60 * 60 * 1000,
+            maxRepostsPerHour: serverConfig.MAX_REPOSTS_PER_HOUR,
+        }, serverConfig.POLL_INTERVAL_MS || readBotSettings().POLL_INTERVAL_MS);
+
+        if (nextBump === null) {
+            await interaction.editReply(`**${target.guildName}** is not expected to be bumped within the next week.`);
+            return;
+        }
+
+        const seconds = Math.floor(nextBump / 1000);
+        await interaction.editReply(`**${target.guildName}** is expected to be bumped <t:${seconds}:R> (<t:${seconds}:f>). ` +
+            'This is an estimate; new submissions and edits can change the order.');
+    },
+};
@@ -0,0 +1,94 @@
+import { ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { MAX_SUBSCRIPTIONS_PER_USER, NotificationStore, Subscription, describeSubscription } from '../Notifications';
+import { findTemplateName, getGameTemplate } from '../GameTemplates';
+import { readServerConfig } from '../ServerConfig';
+
+export const notifyCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('notify')
+        .setDescription('Get an alert when a guild is recruiting your class or role.')
+        .addSubcommand(subcommand => subcommand
+            .setName('add')
+            .setDescription('Subscribe to guilds recruiting a class and/or role.')
+            .addStringOption(option => option
+                .setName('class')
+                .setDescription('Your class.'))
+            .addStringOption(option => option
+                .setName('role')
+                .setDescription('Your role.'))
+            .addStringOption(option => option
+                .setName('faction')
+                .setDescription('Only guilds of this faction.')))
+        .addSubcommand(subcommand => subcommand
+            .setName('list')
+            .setDescription('Show your subscriptions.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('clear')
+            .setDescription('Remove all your subscriptions.'))
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const subcommand = interaction.options.getSubcommand();
+        const notifications = NotificationStore.load(serverId);
+        const subscriptions = notifications.getSubscriptions(interaction.user.id);
+
+        if (subcommand === 'clear') {
+            notifications.setSubscriptions(interaction.user.id, []);
+            await interaction.reply({
+                content: 'Your subscriptions were removed.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (subcommand === 'add') {
+            const template = getGameTemplate(readServerConfig(serverId).GAME_TEMPLATE);
+            const classText = interaction.options.getString('class');
+            const roleText = interaction.options.getString('role');
+            const subscription: Subscription = {
+                className: classText ? findTemplateName(template.classes, classText) : undefined,
+                role: roleText ? findTemplateName(template.roles, roleText) : undefined,
+                faction: interaction.options.getString('faction')?.trim() || undefined,
+            };
+
+            if (!classText && !roleText) {
+                await interaction.reply({
+                    content: 'Choose a class, a role or both.',
+                    ephemeral: true
+                });
+                return;
+            }
+            if ((classText && !subscription.className) || (roleText && !subscription.role)) {
+                await interaction.reply({
+                    content: classText && !subscription.className
+                        ? `Unknown class "${classText}". Classes: ${template.classes.join(', ')}`
+                        : `Unknown role "${roleText}". Roles: ${template.roles.join(', ')}`,
+                    ephemeral: true
+                });
+                return;
+            }
+            if (subscriptions.length >= MAX_SUBSCRIPTIONS_PER_USER) {
+                await interaction.reply({
+                    content: `You can have at most ${MAX_SUBSCRIPTIONS_PER_USER} subscriptions. Use \`/notify clear\` to start over.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            subscriptions.push(subscription);
+            notifications.setSubscriptions(interaction.user.id, subscriptions);
+        }
+
+        await interaction.reply({
+            content: subscriptions.length > 0
+                ? `**Your subscriptions:**\n${subscriptions.map(subscription => `- ${describeSubscription(subscription)}`).join('\n')}`
+                : 'You have no subscriptions. Use `/notify add` to get alerts.',
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,98 @@
+import { ChannelType, ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+import { RoutingRule, getRoutingSettings, setRoutingRule } from '../Routing';
+
+const describeRule = (rule: RoutingRule, index: number) =>
+    `${index + 1}. **${rule.COLUMN}** = ${[rule.VALUE].flat().map(value => `"${value}"`).join(' or ')} → <#${rule.CHANNEL_ID}>`;
+
+export const routingCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('routing')
+        .setDescription('Choose which forum each submission is posted in.')
+        .addSubcommand(subcommand => subcommand
+            .setName('list')
+            .setDescription('Show the routing rules, in the order they are checked.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('add')
+            .setDescription('Post submissions whose column has a given value in a forum channel.')
+            .addStringOption(option => option
+                .setName('column')
+                .setDescription('Sheet header to check, e.g. Region, or FACTION to follow the column map.')
+                .setRequired(true))
+            .addStringOption(option => option
+                .setName('value')
+                .setDescription('Value to match, e.g. EU (not case-sensitive).')
+                .setRequired(true))
+            .addChannelOption(option => option
+                .setName('channel')
+                .setDescription('Forum channel to post matching submissions in.')
+                .addChannelTypes(ChannelType.GuildForum)
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('remove')
+            .setDescription('Remove a routing rule.')
+            .addIntegerOption(option => option
+                .setName('rule')
+                .setDescription('Rule number, as shown by /routing list.')
+                .setMinValue(1)
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('fallback')
+            .setDescription('Set the forum for submissions no rule matches. Leave empty to skip them.')
+            .addChannelOption(option => option
+                .setName('channel')
+                .setDescription('Forum channel for unmatched submissions.')
+                .addChannelTypes(ChannelType.GuildForum)))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        let serverConfig = readServerConfig(serverId);
+        const subcommand = interaction.options.getSubcommand();
+
+        if (subcommand === 'add') {
+            const column = interaction.options.getString('column', true).trim();
+            const value = interaction.options.getString('value', true).trim();
+            const channel = interaction.options.getChannel('channel', true);
+
+            setRoutingRule(serverConfig, column, value, channel.id);
+            saveServerConfig(serverId, serverConfig);
+
+        } else if (subcommand === 'remove') {
+            const { RULES } = getRoutingSettings(serverConfig);
+            const ruleNumber = interaction.options.getInteger('rule', true);
+
+            if (ruleNumber > RULES.length) {
+                await interaction.reply({
+                    content: `There is no rule ${ruleNumber}. Use /routing list to see the rules.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            serverConfig.ROUTING_RULES = RULES.filter((_, index) => index !== ruleNumber - 1);
+            saveServerConfig(serverId, serverConfig);
+
+        } else if (subcommand === 'fallback') {
+            const channel = interaction.options.getChannel('channel');
+
+            serverConfig.ROUTING_RULES = getRoutingSettings(serverConfig).RULES;
+            serverConfig.FALLBACK_CHANNEL_ID = channel?.id || '';
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        const routing = getRoutingSettings(serverConfig);
+        const rules = routing.RULES.length > 0 ? routing.RULES.map(describeRule).join('\n') : 'No routing rules.';
+        const fallback = routing.FALLBACK_CHANNEL_ID ? `<#${routing.FALLBACK_CHANNEL_ID}>` : 'none (unmatched submissions are skipped)';
+
+        await interaction.reply({
+            content: `**Routing rules**\n${rules}\n\n**Fallback channel:** ${fallback}`.slice(0, 2000),
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,206 @@
+import {
+    ActionRowBuilder,
+    ChatInputCommandInteraction,
+    ForumChannel,
+    Guild,
+    MessageComponentInteraction,
+    ModalSubmitInteraction,
+    PermissionFlagsBits,
+    StringSelectMenuBuilder,
+    StringSelectMenuOptionBuilder
+} from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand, ComponentHandler } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+import { setRoutingRule } from '../Routing';
+import { GAME_TEMPLATES, GAME_TEMPLATE_IDS, GameTemplate, GameTemplateId, getGameTemplate } from '../GameTemplates';
+
+// Each menu option's value says which step it answers: "faction_<index>_<channelId>" for the template's factions in
+// order, "fallback_<channelId>" for games without factions, then "mod_<channelId>"
+const SETUP_SELECT_ID = 'setup_channel_select';
+
+// Choices are held here until the last step, so the server keeps posting with its old channels while setup runs.
+// Setups are kept for as long as Discord lets the ephemeral menus be answered.
+const SETUP_LIFETIME_MS = 15 * 60 * 1000;
+interface PendingSetup {
+    game: GameTemplateId;
+    factionChannelIds: string[];
+    fallbackChannelId?: string;
+    expiresAt: number;
+}
+const pendingSetups = new Map<string, PendingSetup>();
+
+const getPendingSetup = (serverId: string): PendingSetup | undefined => {
+    const setup = pendingSetups.get(serverId);
+    if (setup && setup.expiresAt <= Date.now()) {
+        pendingSetups.delete(serverId);
+        return undefined;
+    }
+    return setup;
+};
+
+// Whether someone is part way through /setup, in which case the server's routing may not be complete yet
+export const isSetupInProgress = (serverId: string): boolean => getPendingSetup(serverId) !== undefined;
+
+// Select menus can hold at most 25 options
+const buildForumChannelMenu = (guild: Guild, step: string, placeholder: string) => {
+    const channels = guild.channels.cache.filter(c => c instanceof ForumChannel);
+    const options = channels.map(c => new StringSelectMenuOptionBuilder()
+        .setLabel(c.name)
+        .setValue(`${step}_${c.id}`)
+    ).slice(0, 25);
+
+    const selectMenu = new StringSelectMenuBuilder()
+        .setCustomId(SETUP_SELECT_ID)
+        .setPlaceholder(placeholder)
+        .addOptions(options);
+
+    return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(selectMenu);
+};
+
+// The prompt for the faction at `index`, or for the moderation channel once every faction has one
+const buildNextPrompt = (guild: Guild, template: GameTemplate, index: number) => {
+    if (index < template.factions.length) {
+        const faction = template.factions[index];
+        return {
+            content: `Select the ${faction} channel:`,
+            components: [buildForumChannelMenu(guild, `faction_${index}`, `Select ${faction} Channel`)],
+            ephemeral: true
+        };
+    }
+    return {
+        content: 'Select the Moderation channel:',
+        components: [buildForumChannelMenu(guild, 'mod', 'Select Moderation Channel')],
+        ephemeral: true
+    };
+};
+
+export const setupCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setup')
+        .setDescription('Choose the game, a forum channel for each of its factions and the moderation channel.')
+        .addStringOption(option => option
+            .setName('game')
+            .setDescription('The game whose classes, roles, factions and emotes posts use. Keeps the current game if empty.')
+            .addChoices(...GAME_TEMPLATE_IDS.map(id => ({ name: GAME_TEMPLATES[id].name, value: id }))))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guild) return;
+
+        const serverId = interaction.guild.id;
+        const serverConfig = readServerConfig(serverId);
+        const game = (interaction.options.getString('game') as GameTemplateId | null) || getGameTemplate(serverConfig.GAME_TEMPLATE).id;
+        const template = getGameTemplate(game);
+        pendingSetups.set(serverId, { game, factionChannelIds: [], expiresAt: Date.now() + SETUP_LIFETIME_MS });
+
+        await interaction.reply({
+            content: `Starting setup for **${template.name}**. Please follow the instructions. Nothing changes until the last channel is chosen.`,
+            ephemeral: true
+        });
+
+        // Games without factions post every guild in one channel
+        if (template.factions.length === 0) {
+            await interaction.followUp({
+                content: 'Select the recruitment channel:',
+                components: [buildForumChannelMenu(interaction.guild, 'fallback', 'Select Recruitment Channel')],
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.followUp(buildNextPrompt(interaction.guild, template, 0));
+    },
+};
+
+export const setupChannelSelectHandler: ComponentHandler = {
+    matches: (customId: string) => customId === SETUP_SELECT_ID,
+
+    async execute(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+        if (!interaction.isStringSelectMenu()) return;
+
+        const parts = interaction.values[0].split('_');
+        const step = parts[0];
+        const channelId = parts[parts.length - 1];
+        const guild = interaction.guild;
+
+        if (!guild) return;
+
+        const serverId = guild.id;
+        const setup = getPendingSetup(serverId);
+        if (!setup) {
+            await interaction.reply({
+                content: 'This setup has expired. Run /setup again.',
+                ephemeral: true
+            });
+            return;
+        }
+        const template = getGameTemplate(setup.game);
+
+        if (step === 'faction') {
+            // Menus from an earlier /setup may still be open
+            const index = Number(parts[1]);
+            const faction = template.factions[index];
+            if (!faction) {
+                await interaction.reply({
+                    content: 'This menu is out of date. Run /setup again.',
+                    ephemeral: true
+                });
+                return;
+            }
+
+            setup.factionChannelIds[index] = channelId;
+
+            await interaction.reply({
+                content: `${faction} channel set to <#${channelId}>.`,
+                ephemeral: true
+            });
+            await interaction.followUp(buildNextPrompt(guild, template, index + 1));
+
+        } else if (step === 'fallback') {
+            setup.fallbackChannelId = channelId;
+
+            await interaction.reply({
+                content: `Recruitment channel set to <#${channelId}>.`,
+                ephemeral: true
+            });
+            await interaction.followUp(buildNextPrompt(guild, template, template.factions.length));
+
+        } else if (step === 'mod') {
+            const missing = template.factions.filter((_, index) => !setup.factionChannelIds[index]);
+            if (missing.length > 0 || (template.factions.length === 0 && !setup.fallbackChannelId)) {
+                await interaction.reply({
+                    content: `No channel was chosen for ${missing.join(', ') || 'recruitment'}. Run /setup again.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            // Another game's factions would never match, and their missing column would pause posting
+            const serverConfig = readServerConfig(serverId);
+            if (setup.game !== getGameTemplate(serverConfig.GAME_TEMPLATE).id) {
+                serverConfig.ROUTING_RULES = (serverConfig.ROUTING_RULES || []).filter(rule => rule.COLUMN !== 'FACTION');
+            }
+            serverConfig.GAME_TEMPLATE = setup.game;
+            template.factions.forEach((faction, index) => setRoutingRule(serverConfig, 'FACTION', faction, setup.factionChannelIds[index]));
+            if (setup.fallbackChannelId) {
+                serverConfig.FALLBACK_CHANNEL_ID = setup.fallbackChannelId;
+            }
+            serverConfig.MOD_CHANNEL_ID = channelId;
+            saveServerConfig(serverId, serverConfig);
+            pendingSetups.delete(serverId);
+
+            await interaction.reply({
+                content: `Moderation channel set to <#${channelId}>. Configuration is now complete!`,
+                ephemeral: true
+            });
+
+        } else {
+            await interaction.reply({
+                content: 'This interaction is not a valid selection menu.',
+                ephemeral: true
+            });
+        }
+    },
+};
@@ -0,0 +1,36 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+
+export const setupApprovalCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setupapproval')
+        .setDescription('Require moderator approval before new recruitment posts go public.')
+        .addBooleanOption(option => option
+            .setName('enabled')
+            .setDescription('Post new submissions to the moderation channel for review first.')
+            .setRequired(true))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const enabled = interaction.options.getBoolean('enabled', true);
+
+        let serverConfig = readServerConfig(serverId);
+
+        serverConfig.REQUIRE_APPROVAL = enabled;
+
+        saveServerConfig(serverId, serverConfig);
+
+        await interaction.reply({
+            content: enabled
+                ? 'Approval mode enabled: new submissions will be previewed in the moderation channel before they are posted.'
+                : 'Approval mode disabled: new submissions will be posted directly.',
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,109 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig, createServerDataSource } from '../ServerConfig';
+import { ColumnKey, ColumnMap, COLUMN_KEYS, COLUMN_LABELS, describeColumnMap, detectColumnMap, resolveColumnIndices } from '../ColumnMap';
+import { getGameTemplate } from '../GameTemplates';
+
+const columnChoices = COLUMN_KEYS.map(key => ({ name: COLUMN_LABELS[key], value: key }));
+
+const fetchHeaders = async (serverId: string): Promise<string[]> => {
+    const rows = await createServerDataSource(serverId).fetchRows();
+    return (rows[0] || []).map(header => header.trim());
+};
+
+const summarize = (headers: string[], columnMap: ColumnMap, templateColumns: ColumnMap): string => {
+    const { missing } = resolveColumnIndices(headers, columnMap, templateColumns);
+    const status = missing.length === 0
+        ? 'All required columns were found.'
+        : `⚠️ Missing required columns: ${missing.map(key => COLUMN_LABELS[key]).join(', ')}. Posting is paused until they are mapped.`;
+
+    return `${describeColumnMap(headers, columnMap, templateColumns)}\n\n${status}`.slice(0, 2000);
+};
+
+export const setupColumnsCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setupcolumns')
+        .setDescription('Map the sheet columns the bot reads to your form questions.')
+        .addSubcommand(subcommand => subcommand
+            .setName('show')
+            .setDescription('Show how each column is mapped, checked against the live sheet.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('detect')
+            .setDescription('Guess the column map from the live sheet headers and save it.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('set')
+            .setDescription('Map one column to a sheet header.')
+            .addStringOption(option => option
+                .setName('column')
+                .setDescription('The column the bot needs.')
+                .setRequired(true)
+                .addChoices(...columnChoices))
+            .addStringOption(option => option
+                .setName('header')
+                .setDescription('The sheet header (form question) to read it from.')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('reset')
+            .setDescription('Forget a column mapping and go back to auto-detection.')
+            .addStringOption(option => option
+                .setName('column')
+                .setDescription('The column to reset.')
+                .setRequired(true)
+                .addChoices(...columnChoices)))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        await interaction.deferReply({ ephemeral: true });
+
+        let headers: string[];
+        try {
+            headers = await fetchHeaders(serverId);
+        } catch (error) {
+            await interaction.editReply(`Failed to read the sheet: ${error}`);
+            return;
+        }
+
+        if (headers.length === 0) {
+            await interaction.editReply('The sheet has no header row. Check the spreadsheet ID and range.');
+            return;
+        }
+
+        let serverConfig = readServerConfig(serverId);
+        const columnMap: ColumnMap = serverConfig.COLUMN_MAP || {};
+        const templateColumns = getGameTemplate(serverConfig.GAME_TEMPLATE).columnNames;
+        const subcommand = interaction.options.getSubcommand();
+
+        if (subcommand === 'show') {
+            await interaction.editReply(summarize(headers, columnMap, templateColumns));
+            return;
+        }
+
+        if (subcommand === 'detect') {
+            serverConfig.COLUMN_MAP = detectColumnMap(headers, templateColumns);
+        } else if (subcommand === 'set') {
+            const column = interaction.options.getString('column', true) as ColumnKey;
+            const header = interaction.options.getString('header', true).trim();
+            const matchingHeader = headers.find(h => h.toLowerCase() === header.toLowerCase());
+
+            if (!matchingHeader) {
+                await interaction.editReply(`No header "${header}" in the sheet. Available headers: ${headers.map(h => `"${h}"`).join(', ')}`.slice(0, 2000));
+                return;
+            }
+
+            serverConfig.COLUMN_MAP = { ...columnMap, [column]: matchingHeader };
+        } else if (subcommand === 'reset') {
+            const column = interaction.options.getString('column', true) as ColumnKey;
+            const { [column]: _removed, ...remaining } = columnMap;
+            serverConfig.COLUMN_MAP = remaining;
+        }
+
+        saveServerConfig(serverId, serverConfig);
+
+        await interaction.editReply(`Column map saved.\n\n${summarize(headers, serverConfig.COLUMN_MAP || {}, templateColumns)}`.slice(0, 2000));
+    },
+};
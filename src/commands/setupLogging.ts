@@ -0,0 +1,48 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+import { LOG_LEVELS, setGuildLogOptions } from '../Logger';
+
+export const setupLoggingCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setuplogging')
+        .setDescription('Set how much the bot logs for this server, and whether problems are posted to the moderation channel.')
+        .addStringOption(option => option
+            .setName('level')
+            .setDescription('Lowest level logged for this server. "default" follows the bot-wide setting.')
+            .addChoices(...['default', ...LOG_LEVELS].map(level => ({ name: level, value: level }))))
+        .addBooleanOption(option => option
+            .setName('mirror_to_mod')
+            .setDescription('Post a digest of warnings and errors to the moderation channel after each check.'))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const level = interaction.options.getString('level');
+        const mirrorToMod = interaction.options.getBoolean('mirror_to_mod');
+
+        let serverConfig = readServerConfig(serverId);
+
+        if (level) {
+            serverConfig.LOG_LEVEL = level === 'default' ? '' : level;
+        }
+        if (mirrorToMod !== null) {
+            serverConfig.LOG_MIRROR_TO_MOD = mirrorToMod;
+        }
+        if (level || mirrorToMod !== null) {
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        setGuildLogOptions(serverId, serverConfig.LOG_LEVEL, serverConfig.LOG_MIRROR_TO_MOD);
+
+        await interaction.reply({
+            content: `**Log level:** ${serverConfig.LOG_LEVEL || 'default'}\n` +
+                `**Warnings and errors posted to the moderation channel:** ${serverConfig.LOG_MIRROR_TO_MOD ? 'yes' : 'no'}`,
+            ephemeral: true
+        });
+    },
+};
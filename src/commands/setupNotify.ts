@@ -0,0 +1,53 @@
+import { ChannelType, ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+
+export const setupNotifyCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setupnotify')
+        .setDescription('Choose where /notify alerts are sent and how often a player can get one.')
+        .addChannelOption(option => option
+            .setName('channel')
+            .setDescription('Text channel to ping subscribers in.')
+            .addChannelTypes(ChannelType.GuildText))
+        .addBooleanOption(option => option
+            .setName('use_dms')
+            .setDescription('Send alerts by DM instead of pinging in a channel.'))
+        .addIntegerOption(option => option
+            .setName('cooldown_minutes')
+            .setDescription('Minimum time between two alerts to the same player.')
+            .setMinValue(1))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const channel = interaction.options.getChannel('channel');
+        const useDms = interaction.options.getBoolean('use_dms');
+        const cooldownMinutes = interaction.options.getInteger('cooldown_minutes');
+
+        let serverConfig = readServerConfig(serverId);
+
+        if (channel) {
+            serverConfig.NOTIFY_CHANNEL_ID = channel.id;
+        }
+        if (useDms) {
+            delete serverConfig.NOTIFY_CHANNEL_ID;
+        }
+        if (cooldownMinutes !== null) {
+            serverConfig.NOTIFY_COOLDOWN_MINUTES = cooldownMinutes;
+        }
+        if (channel || useDms !== null || cooldownMinutes !== null) {
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        await interaction.reply({
+            content: `**Alerts:** ${serverConfig.NOTIFY_CHANNEL_ID ? `pinged in <#${serverConfig.NOTIFY_CHANNEL_ID}>` : 'sent by DM'}\n` +
+                `**Cooldown:** ${serverConfig.NOTIFY_COOLDOWN_MINUTES || 60} minutes`,
+            ephemeral: true
+        });
+    },
+};
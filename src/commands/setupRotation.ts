@@ -0,0 +1,80 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+import { REPOST_STRATEGIES, RepostStrategy } from '../RepostRotation';
+
+// "Gold=3, Silver=2" → { Gold: 3, Silver: 2 }; entries without a valid number are ignored
+const parseWeights = (text: string): Record<string, number> => Object.fromEntries(text.split(',')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([name, weight]) => name && weight !== undefined && Number.isFinite(Number(weight)) && Number(weight) >= 0)
+    .map(([name, weight]) => [name, Number(weight)]));
+
+const formatWeights = (weights: Record<string, number> = {}): string =>
+    Object.entries(weights).map(([name, weight]) => `${name}=${weight}`).join(', ') || 'none';
+
+export const setupRotationCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setuprotation')
+        .setDescription('Choose which thread is bumped next and how many bumps are allowed per hour.')
+        .addStringOption(option => option
+            .setName('strategy')
+            .setDescription('oldest-first bumps the oldest thread, round-robin takes turns, weighted favours the priority column.')
+            .addChoices(...REPOST_STRATEGIES.map(strategy => ({ name: strategy, value: strategy }))))
+        .addStringOption(option => option
+            .setName('priority_column')
+            .setDescription('Sheet column holding each entry\'s priority, e.g. a sponsor tier. Use "none" to clear.'))
+        .addStringOption(option => option
+            .setName('weights')
+            .setDescription('Weight of each priority value, e.g. "Gold=3, Silver=2". Numbers in the column are used as-is.'))
+        .addIntegerOption(option => option
+            .setName('max_reposts_per_hour')
+            .setDescription('Most threads bumped per hour across all channels. 0 for no limit.')
+            .setMinValue(0))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const strategy = interaction.options.getString('strategy') as RepostStrategy | null;
+        const priorityColumn = interaction.options.getString('priority_column');
+        const weights = interaction.options.getString('weights');
+        const maxRepostsPerHour = interaction.options.getInteger('max_reposts_per_hour');
+
+        let serverConfig = readServerConfig(serverId);
+
+        if (strategy) {
+            serverConfig.REPOST_STRATEGY = strategy;
+        }
+        if (priorityColumn !== null) {
+            if (priorityColumn.trim().toLowerCase() === 'none') {
+                delete serverConfig.REPOST_PRIORITY_COLUMN;
+            } else {
+                serverConfig.REPOST_PRIORITY_COLUMN = priorityColumn.trim();
+            }
+        }
+        if (weights !== null) {
+            serverConfig.REPOST_PRIORITY_WEIGHTS = parseWeights(weights);
+        }
+        if (maxRepostsPerHour !== null) {
+            if (maxRepostsPerHour === 0) {
+                delete serverConfig.MAX_REPOSTS_PER_HOUR;
+            } else {
+                serverConfig.MAX_REPOSTS_PER_HOUR = maxRepostsPerHour;
+            }
+        }
+        if (strategy || priorityColumn !== null || weights !== null || maxRepostsPerHour !== null) {
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        await interaction.reply({
+            content: `**Strategy:** ${serverConfig.REPOST_STRATEGY || 'oldest-first'}\n` +
+                `**Priority column:** ${serverConfig.REPOST_PRIORITY_COLUMN || 'none'}\n` +
+                `**Weights:** ${formatWeights(serverConfig.REPOST_PRIORITY_WEIGHTS)}\n` +
+                `**Max reposts per hour:** ${serverConfig.MAX_REPOSTS_PER_HOUR || 'no limit'}`,
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,45 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+import { STATUS_COLUMNS } from '../DataSources';
+
+export const setupSheetCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setupsheet')
+        .setDescription('Set the Google Sheet that recruitment posts are read from.')
+        .addStringOption(option => option
+            .setName('spreadsheet_id')
+            .setDescription('The ID from the sheet URL: docs.google.com/spreadsheets/d/<ID>/edit'))
+        .addBooleanOption(option => option
+            .setName('write_status')
+            .setDescription('Write each submission\'s post status into columns of the sheet. Needs edit access.'))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const spreadsheetId = interaction.options.getString('spreadsheet_id');
+        const writeStatus = interaction.options.getBoolean('write_status');
+
+        let serverConfig = readServerConfig(serverId);
+
+        if (spreadsheetId) {
+            serverConfig.SPREADSHEET_ID = spreadsheetId;
+        }
+        if (writeStatus !== null) {
+            serverConfig.WRITE_SHEET_STATUS = writeStatus;
+        }
+        if (spreadsheetId || writeStatus !== null) {
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        await interaction.reply({
+            content: `**Spreadsheet ID:** ${serverConfig.SPREADSHEET_ID || 'not set'}\n` +
+                `**Status columns:** ${serverConfig.WRITE_SHEET_STATUS ? `written (${STATUS_COLUMNS.join(', ')})` : 'not written'}`,
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,42 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig } from '../ServerConfig';
+
+export const setupTimersCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setuptimers')
+        .setDescription('Set how often posts are bumped and how long submissions stay listed.')
+        .addNumberOption(option => option
+            .setName('thread_age_limit_hours')
+            .setDescription('Repost a thread once it is this many hours old.')
+            .setMinValue(0.1)
+            .setRequired(true))
+        .addNumberOption(option => option
+            .setName('max_entry_age_days')
+            .setDescription('Remove submissions older than this many days.')
+            .setMinValue(1)
+            .setRequired(true))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const threadAgeLimitHours = interaction.options.getNumber('thread_age_limit_hours', true);
+        const maxEntryAgeDays = interaction.options.getNumber('max_entry_age_days', true);
+
+        let serverConfig = readServerConfig(serverId);
+
+        serverConfig.THREAD_AGE_LIMIT_HOURS = threadAgeLimitHours;
+        serverConfig.MAX_ENTRY_AGE_DAYS = maxEntryAgeDays;
+
+        saveServerConfig(serverId, serverConfig);
+
+        await interaction.reply({
+            content: `Configuration updated:\n- Thread Age Limit: ${threadAgeLimitHours} hours\n- Max Entry Age: ${maxEntryAgeDays} days`,
+            ephemeral: true
+        });
+    },
+};
@@ -0,0 +1,80 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { readServerConfig, saveServerConfig, createServerDataSource } from '../ServerConfig';
+import { resolveColumnIndices } from '../ColumnMap';
+import { getGameTemplate } from '../GameTemplates';
+import { DEFAULT_TIMESTAMP_FORMATS, isValidTimezone, parseTimestamp } from '../Timestamps';
+
+export const setupTimestampsCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('setuptimestamps')
+        .setDescription('Set how submission timestamps are read, then check them against the sheet.')
+        .addStringOption(option => option
+            .setName('formats')
+            .setDescription('Luxon formats separated by ";", e.g. dd/MM/yyyy HH:mm:ss. Use "default" to reset.'))
+        .addStringOption(option => option
+            .setName('timezone')
+            .setDescription('IANA timezone of the form, e.g. Europe/Berlin. Use "default" for the bot host\'s timezone.'))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const formatsOption = interaction.options.getString('formats')?.trim();
+        const timezoneOption = interaction.options.getString('timezone')?.trim();
+
+        if (timezoneOption && timezoneOption !== 'default' && !isValidTimezone(timezoneOption)) {
+            await interaction.reply({
+                content: `"${timezoneOption}" is not a valid timezone. Use an IANA name such as Europe/Berlin or America/New_York.`,
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        let serverConfig = readServerConfig(serverId);
+
+        if (formatsOption) {
+            serverConfig.TIMESTAMP_FORMATS = formatsOption === 'default'
+                ? []
+                : formatsOption.split(';').map(format => format.trim()).filter(Boolean);
+        }
+        if (timezoneOption) {
+            serverConfig.TIMEZONE = timezoneOption === 'default' ? '' : timezoneOption;
+        }
+        if (formatsOption || timezoneOption) {
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        const formats: string[] = serverConfig.TIMESTAMP_FORMATS?.length ? serverConfig.TIMESTAMP_FORMATS : DEFAULT_TIMESTAMP_FORMATS;
+        const timezone: string = serverConfig.TIMEZONE || 'local';
+        const settings = `**Formats:** ISO 8601, ${formats.map(format => `\`${format}\``).join(', ')}\n**Timezone:** ${serverConfig.TIMEZONE || 'bot host'}`;
+
+        // Check the settings against the live sheet
+        let check: string;
+        try {
+            const rows = await createServerDataSource(serverId).fetchRows();
+            const timestampIndex = resolveColumnIndices(rows[0] || [], serverConfig.COLUMN_MAP, getGameTemplate(serverConfig.GAME_TEMPLATE).columnNames).indices.TIMESTAMP;
+
+            if (timestampIndex === -1) {
+                check = '⚠️ No timestamp column found in the sheet. Use /setupcolumns to map it.';
+            } else {
+                const timestamps = rows.slice(1).map(row => row[timestampIndex] || '');
+                const unreadable = timestamps.filter(timestamp => !parseTimestamp(timestamp, formats, timezone));
+                const examples = unreadable.slice(0, 5).map(timestamp => ` - ${timestamp ? `"${timestamp}"` : '(empty)'}`).join('\n');
+
+                check = unreadable.length === 0
+                    ? `✅ All ${timestamps.length} timestamps in the sheet can be read.`
+                    : `⚠️ ${unreadable.length} of ${timestamps.length} timestamps can't be read, for example:\n${examples}`;
+            }
+        } catch (error) {
+            check = `Failed to read the sheet: ${error}`;
+        }
+
+        await interaction.editReply(`${settings}\n\n${check}`.slice(0, 2000));
+    },
+};
@@ -0,0 +1,111 @@
+import {
+    ActionRowBuilder,
+    MessageComponentInteraction,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    PermissionFlagsBits,
+    TextInputBuilder,
+    TextInputStyle
+} from 'discord.js';
+import { DateTime } from 'luxon';
+import { ComponentHandler } from '../CommandRegistry';
+import { SimilarCaseEntry, SimilarNameCase, SimilarNameCaseStore } from '../SimilarNameCases';
+import { logger } from '../Logger';
+import { IGNORE_BUTTON_ID, MERGE_BUTTON_ID, NOT_DUPLICATE_BUTTON_ID } from '../Components';
+
+const IGNORE_MODAL_ID = 'similar_ignore_modal';
+const DAYS_INPUT_ID = 'days';
+
+const buildIgnoreModal = () => new ModalBuilder()
+    .setCustomId(IGNORE_MODAL_ID)
+    .setTitle('Ignore similar names')
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+            .setCustomId(DAYS_INPUT_ID)
+            .setLabel('Number of days (1-365)')
+            .setStyle(TextInputStyle.Short)
+            .setMaxLength(3)
+            .setRequired(true)
+    ));
+
+// Entries whose submission time is unknown count as the oldest
+const oldestEntry = (entries: SimilarCaseEntry[]): SimilarCaseEntry =>
+    [...entries].sort((a, b) => (a.submittedAt ? Date.parse(a.submittedAt) : 0) - (b.submittedAt ? Date.parse(b.submittedAt) : 0))[0];
+
+const recordDecision = async (interaction: MessageComponentInteraction | ModalSubmitInteraction, decide: (similarCase: SimilarNameCase) => Partial<SimilarNameCase>) => {
+    const guildId = interaction.guild?.id;
+    const caseThreadId = interaction.channelId;
+    if (!guildId || !caseThreadId) return;
+
+    const cases = SimilarNameCaseStore.load(guildId);
+    const found = cases.findByCaseThreadId(caseThreadId);
+    if (!found || found[1].status !== 'open') {
+        await interaction.reply({
+            content: 'This case has already been decided.',
+            ephemeral: true
+        });
+        return;
+    }
+
+    const [caseKey, similarCase] = found;
+    const decided: SimilarNameCase = {
+        ...similarCase,
+        ...decide(similarCase),
+        decidedBy: interaction.user.id,
+        decidedAt: new Date().toISOString(),
+    };
+    cases.set(caseKey, decided);
+
+    // Remove the buttons so the case can't be decided twice
+    await interaction.message?.edit({ components: [] });
+
+    const names = similarCase.entries.map(entry => `**${entry.guildName}**`).join(' and ');
+    const removed = similarCase.entries.find(entry => entry.key === decided.removedKey);
+    const summaries: Record<string, string> = {
+        not_duplicate: `✅ <@${interaction.user.id}> marked ${names} as different guilds. They won't be reported again.`,
+        merge: `🔀 <@${interaction.user.id}> merged ${names}. The ad for **${removed?.guildName}** will be removed in the next cycle.`,
+        ignored: `🔕 <@${interaction.user.id}> ignored ${names} until <t:${Math.floor(Date.parse(decided.ignoredUntil || '') / 1000)}:f>.`,
+    };
+
+    await interaction.reply({ content: summaries[decided.status] });
+    logger.info(`Similar name case ${caseKey} marked as ${decided.status} by ${interaction.user.tag}.`, { guildId, action: 'similar-names' });
+};
+
+export const similarNameHandler: ComponentHandler = {
+    matches: (customId: string) => [NOT_DUPLICATE_BUTTON_ID, MERGE_BUTTON_ID, IGNORE_BUTTON_ID, IGNORE_MODAL_ID].includes(customId),
+
+    async execute(interaction: MessageComponentInteraction | ModalSubmitInteraction) {
+        if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)) {
+            await interaction.reply({
+                content: 'Only moderators can decide similar name cases.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (interaction.isModalSubmit()) {
+            const days = Number(interaction.fields.getTextInputValue(DAYS_INPUT_ID).trim());
+            if (!Number.isInteger(days) || days < 1 || days > 365) {
+                await interaction.reply({
+                    content: 'Enter a whole number of days between 1 and 365.',
+                    ephemeral: true
+                });
+                return;
+            }
+
+            await recordDecision(interaction, () => ({
+                status: 'ignored',
+                ignoredUntil: DateTime.now().plus({ days }).toISO() || undefined,
+            }));
+            return;
+        }
+
+        if (interaction.customId === NOT_DUPLICATE_BUTTON_ID) {
+            await recordDecision(interaction, () => ({ status: 'not_duplicate' }));
+        } else if (interaction.customId === MERGE_BUTTON_ID) {
+            await recordDecision(interaction, similarCase => ({ status: 'merge', removedKey: oldestEntry(similarCase.entries).key }));
+        } else {
+            await interaction.showModal(buildIgnoreModal());
+        }
+    },
+};
@@ -0,0 +1,45 @@
+import { ChatInputCommandInteraction } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { ApprovalStore } from '../ApprovalStore';
+import { normalizeGuildName } from '../ThreadLedger';
+
+const statusLabels = {
+    pending: '⏳ Waiting for a moderator to review it.',
+    approved: '✅ Approved.',
+    rejected: '❌ Rejected.',
+    changes_requested: '✏️ Changes requested. Update your form response and it will be reviewed again.',
+};
+
+export const submissionStatusCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('submissionstatus')
+        .setDescription('Check whether a recruitment submission was approved.')
+        .addStringOption(option => option
+            .setName('guild_name')
+            .setDescription('The guild name as entered in the form.')
+            .setRequired(true))
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const guildName = interaction.options.getString('guild_name', true);
+        const approval = ApprovalStore.load(serverId).get(normalizeGuildName(guildName));
+
+        if (!approval) {
+            await interaction.reply({
+                content: `No reviewed submission found for **${guildName}**.`,
+                ephemeral: true
+            });
+            return;
+        }
+
+        const reason = approval.reason ? `\n**Moderator note:** ${approval.reason}` : '';
+        await interaction.reply({
+            content: `**${approval.guildName}**: ${statusLabels[approval.status]}${reason}`,
+            ephemeral: true
+        });
+    },
+};
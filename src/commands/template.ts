@@ -0,0 +1,86 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits } from 'discord.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { SlashCommand } from '../CommandRegistry';
+import { createServerManager, readServerConfig, saveServerConfig } from '../ServerConfig';
+import { normalizeGuildName } from '../ThreadLedger';
+
+export const templateCommand: SlashCommand = {
+    data: new SlashCommandBuilder()
+        .setName('template')
+        .setDescription('Choose how recruitment posts look.')
+        .addSubcommand(subcommand => subcommand
+            .setName('show')
+            .setDescription('Show the post template as JSON.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('set')
+            .setDescription('Replace the post template. Posts change the next time they are edited or reposted.')
+            .addStringOption(option => option
+                .setName('json')
+                .setDescription('The template as JSON, e.g. {"TITLE": "{Guild Name}", "LOGO_POSITION": "thumbnail"}')
+                .setRequired(true)))
+        .addSubcommand(subcommand => subcommand
+            .setName('reset')
+            .setDescription('Go back to the default post layout.'))
+        .addSubcommand(subcommand => subcommand
+            .setName('preview')
+            .setDescription('Show how a guild\'s post looks with the current template.')
+            .addStringOption(option => option
+                .setName('guild_name')
+                .setDescription('A guild in the sheet.')
+                .setRequired(true)))
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .setDMPermission(false),
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const serverId = interaction.guild?.id;
+        if (!serverId) return;
+
+        const subcommand = interaction.options.getSubcommand();
+        let serverConfig = readServerConfig(serverId);
+
+        if (subcommand === 'preview') {
+            await interaction.deferReply({ ephemeral: true });
+
+            const guildName = interaction.options.getString('guild_name', true);
+            const post = await createServerManager(interaction.client, serverId).renderPost(normalizeGuildName(guildName));
+            if (!post) {
+                await interaction.editReply(`No submission found for **${guildName}**, or the sheet's required columns are missing.`);
+                return;
+            }
+
+            await interaction.editReply({
+                content: `Preview of the post for **${guildName}**:`,
+                embeds: post.embeds,
+                files: post.files,
+            });
+            return;
+        }
+
+        if (subcommand === 'set') {
+            let template;
+            try {
+                template = JSON.parse(interaction.options.getString('json', true));
+            } catch (error) {
+                await interaction.reply({
+                    content: `That is not valid JSON: ${error instanceof Error ? error.message : error}`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            // Saving checks the template against the settings schema and names any bad field
+            serverConfig.EMBED_TEMPLATE = template;
+            saveServerConfig(serverId, serverConfig);
+        } else if (subcommand === 'reset') {
+            delete serverConfig.EMBED_TEMPLATE;
+            saveServerConfig(serverId, serverConfig);
+        }
+
+        await interaction.reply({
+            content: serverConfig.EMBED_TEMPLATE
+                ? `**Post template:**\n\`\`\`json\n${JSON.stringify(serverConfig.EMBED_TEMPLATE, null, 2)}\n\`\`\``.slice(0, 2000)
+                : 'Posts use the default layout. Use `/template set` to change it.',
+            ephemeral: true
+        });
+    },
+};